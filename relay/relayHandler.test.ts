@@ -0,0 +1,281 @@
+import type { IncomingMessage, ServerResponse } from "node:http"
+import { Readable } from "node:stream"
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import {
+    createRelayHandler,
+    type RelayActionConfig,
+    type RelayServerConfig,
+} from "./relayHandler"
+import type { SubmissionAction } from "../src/components/quiz-form/submissionService"
+import {
+    createRelayReceipt,
+    RELAY_ENVELOPE_VERSION,
+    type RelayEnvelope,
+} from "../src/components/quiz-form/submissionRelay"
+
+// Destination requests the relay made, by URL
+let sent: Array<{ url: string; body: unknown }>
+
+beforeEach(() => {
+    sent = []
+    vi.spyOn(console, "log").mockImplementation(() => {})
+    vi.spyOn(console, "warn").mockImplementation(() => {})
+    vi.spyOn(console, "error").mockImplementation(() => {})
+    vi.stubGlobal(
+        "fetch",
+        vi.fn(async (input: RequestInfo | URL, init?: RequestInit) => {
+            sent.push({
+                url: String(input),
+                body: JSON.parse(String(init?.body ?? "null")),
+            })
+            return new Response("{}", {
+                status: 200,
+                headers: { "Content-Type": "application/json" },
+            })
+        })
+    )
+})
+
+afterEach(() => {
+    vi.restoreAllMocks()
+    vi.unstubAllGlobals()
+})
+
+const formAction = (
+    id: string,
+    options: Partial<SubmissionAction> = {}
+): SubmissionAction => ({
+    id,
+    name: id,
+    type: "webhook",
+    enabled: true,
+    order: 0,
+    ...options,
+})
+
+const envelope = (
+    actions: SubmissionAction[],
+    extra: Partial<RelayEnvelope> = {}
+): RelayEnvelope => ({
+    version: RELAY_ENVELOPE_VERSION,
+    submission: {
+        formData: { q1: "Yes" },
+        navigationPath: ["q1"],
+        timestamp: "2026-01-01T00:00:00.000Z",
+        sessionId: "session-1",
+    },
+    actions,
+    options: {},
+    ...extra,
+})
+
+// Runs the handler on an in-memory request and reads back the JSON answer
+async function post(config: RelayServerConfig, body: RelayEnvelope) {
+    const request = Object.assign(
+        Readable.from([Buffer.from(JSON.stringify(body))]),
+        {
+            method: "POST",
+            headers: {},
+        }
+    ) as unknown as IncomingMessage
+
+    let status = 0
+    let text = ""
+    const response = {
+        setHeader: () => {},
+        writeHead: (code: number) => {
+            status = code
+        },
+        end: (chunk = "") => {
+            text = chunk
+        },
+    } as unknown as ServerResponse
+
+    await createRelayHandler(config)(request, response)
+    return { status, body: JSON.parse(text) }
+}
+
+describe("email actions behind the relay", () => {
+    const emailjs = {
+        type: "email",
+        emailTo: "team@example.com",
+        emailServiceId: "service",
+        emailPublicKey: "public-key",
+    }
+
+    it("never read the form's email body as the EmailJS template", async () => {
+        const { body } = await post(
+            { actions: { mail: emailjs } },
+            envelope([
+                formAction("mail", {
+                    type: "email",
+                    emailTemplate: "template_of_attackers_choice",
+                }),
+            ])
+        )
+
+        expect(body.results[0]).toMatchObject({
+            status: "failed",
+            error: "EmailJS requires service ID, template ID and public key",
+        })
+        expect(sent).toEqual([])
+    })
+
+    it("send the form's body with the configured template", async () => {
+        await post(
+            { actions: { mail: { ...emailjs, emailTemplateId: "template" } } },
+            envelope([
+                formAction("mail", {
+                    type: "email",
+                    emailTemplate: "Answered {{q1}}",
+                }),
+            ])
+        )
+
+        expect(sent).toHaveLength(1)
+        expect(sent[0].body).toMatchObject({
+            template_id: "template",
+            template_params: { message: "Answered Yes" },
+        })
+    })
+})
+
+describe("actions the relay runs", () => {
+    const crm: RelayActionConfig = {
+        type: "webhook",
+        endpoint: "https://crm.example.com/leads",
+    }
+
+    it("refuse an enabled action the config does not list", async () => {
+        const { status, body } = await post(
+            { actions: { crm } },
+            envelope([formAction("crm"), formAction("erp")])
+        )
+        expect(status).toBe(400)
+        expect(body.error).toBe('Action "erp" is not configured on this relay')
+        expect(sent).toEqual([])
+    })
+
+    it("keep a disabled action the config does not list as a placeholder", async () => {
+        const { status, body } = await post(
+            { actions: { crm } },
+            envelope([
+                formAction("old", { enabled: false }),
+                formAction("crm", { dependsOn: ["old"] }),
+            ])
+        )
+        expect(status).toBe(200)
+        expect(body.results).toMatchObject([
+            {
+                actionId: "crm",
+                status: "skipped_by_dependency",
+                error: 'Skipped: dependency "old" did not run',
+            },
+        ])
+        expect(sent).toEqual([])
+    })
+
+    it("fail on a configured action without a type", async () => {
+        const { status, body } = await post(
+            {
+                actions: {
+                    crm: { endpoint: crm.endpoint } as RelayActionConfig,
+                },
+            },
+            envelope([formAction("crm")])
+        )
+        expect(status).toBe(500)
+        expect(body.error).toBe('Action "crm" has no type in the relay config')
+    })
+
+    it("take the destination from the config and the mapping from the form", async () => {
+        await post(
+            { actions: { crm } },
+            envelope([
+                formAction("crm", {
+                    type: "slack",
+                    endpoint: "https://attacker.example.com",
+                    apiKey: "form-key",
+                    dataMapping: '{ "answer": "q1" }',
+                }),
+            ])
+        )
+        expect(sent).toEqual([
+            { url: "https://crm.example.com/leads", body: { answer: "Yes" } },
+        ])
+    })
+})
+
+describe("relay receipts", () => {
+    const config: RelayServerConfig = {
+        receiptSecret: "receipt-secret",
+        actions: {
+            crm: { type: "webhook", endpoint: "https://crm.example.com/leads" },
+            next: {
+                type: "webhook",
+                endpoint: "https://erp.example.com/orders",
+            },
+        },
+    }
+    // What a final submission sends after an onStep crm action: the
+    // action itself, so the relay knows it, and the one depending on it
+    const crmStep = formAction("crm", {
+        trigger: "onStep",
+        triggerFieldId: "q1",
+    })
+    const next = formAction("next", {
+        dependsOn: ["crm"],
+        dataMapping: '{ "crmId": "results.crm.id" }',
+    })
+    const receipt = (data: unknown) =>
+        createRelayReceipt("receipt-secret", "session-1", "crm", data)
+
+    it("are issued for every action that succeeded", async () => {
+        const { body } = await post(config, envelope([formAction("crm")]))
+        expect(body.receipts).toEqual({ crm: await receipt({}) })
+    })
+
+    it("let earlier results through", async () => {
+        const { body } = await post(
+            config,
+            envelope([crmStep, next], {
+                completedResults: { crm: { id: 7 } },
+                receipts: { crm: await receipt({ id: 7 }) },
+            })
+        )
+        expect(body.results[0].status).toBe("succeeded")
+        expect(sent).toEqual([
+            { url: "https://erp.example.com/orders", body: { crmId: 7 } },
+        ])
+    })
+
+    it.each<[string, Record<string, string> | undefined]>([
+        ["a missing receipt", undefined],
+        ["a forged receipt", { crm: "forged" }],
+    ])("ignore a result with %s", async (_, receipts) => {
+        const { body } = await post(
+            config,
+            envelope([crmStep, next], {
+                completedResults: { crm: { id: 7 } },
+                receipts,
+            })
+        )
+        expect(body.results[0]).toMatchObject({
+            status: "skipped_by_dependency",
+            error: 'Skipped: dependency "crm" did not run',
+        })
+        expect(sent).toEqual([])
+    })
+
+    it("are bound to the result they were issued for", async () => {
+        const { body } = await post(
+            config,
+            envelope([crmStep, next], {
+                completedResults: { crm: { id: 8 } },
+                receipts: { crm: await receipt({ id: 7 }) },
+            })
+        )
+        expect(body.results[0].status).toBe("skipped_by_dependency")
+        expect(sent).toEqual([])
+    })
+})
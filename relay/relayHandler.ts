@@ -0,0 +1,352 @@
+// ===================================================================
+// RELAY HANDLER
+// ===================================================================
+//
+// Receives envelopes from forms in relay mode, fills in the secrets for
+// each action and runs them with the same MultiActionSubmissionService the
+// browser uses. Responds with the SubmissionResult as JSON.
+//
+// Only actions listed in the relay config run. Their type, destination
+// and keys come from the config alone; the envelope may only set the
+// options in FORM_ACTION_OPTIONS, like conditions, retries and mappings:
+//
+//   {
+//     "signingSecret": "also-set-in-the-form",
+//     "actions": {
+//       "airtable": { "type": "airtable", "endpoint": "https://api.airtable.com/v0/app.../Leads", "apiKey": "pat..." },
+//       "slack": { "type": "slack", "endpoint": "https://hooks.slack.com/services/..." }
+//     }
+//   }
+
+import type { IncomingMessage, ServerResponse } from "node:http"
+import { randomBytes, timingSafeEqual } from "node:crypto"
+import {
+    MultiActionSubmissionService,
+    type SubmissionAction,
+    type SubmissionActionTypeName,
+    type SubmissionResult,
+} from "../src/components/quiz-form/submissionService"
+import {
+    createRelayReceipt,
+    RELAY_ENVELOPE_VERSION,
+    RELAY_SIGNATURE_HEADER,
+    RELAY_TIMESTAMP_HEADER,
+    type RelayEnvelope,
+} from "../src/components/quiz-form/submissionRelay"
+import { signRequest } from "../src/components/quiz-form/requestSigning"
+
+export type RelayActionConfig = Partial<SubmissionAction> & {
+    type: SubmissionActionTypeName
+}
+
+export interface RelayServerConfig {
+    signingSecret?: string // Envelopes must be signed when set
+    receiptSecret?: string // Signs result receipts, random per process when unset
+    maxAgeSeconds?: number // Oldest accepted signature, defaults to 300
+    allowedOrigins?: string[] // CORS origins, defaults to any
+    maxBodyBytes?: number // Defaults to 1 MB
+    actions: Record<string, RelayActionConfig> // By action ID
+}
+
+// What the form may set per action: when and how it runs and what it
+// sends. The type, endpoints, recipients, IDs and credentials are never
+// read from the envelope.
+const FORM_ACTION_OPTIONS = [
+    "name",
+    "order",
+    "dependsOn",
+    "trigger",
+    "triggerFieldId",
+    "critical",
+    "condition",
+    "onSuccess",
+    "onError",
+    "retryAttempts",
+    "retryBaseDelay",
+    "retryMaxDelay",
+    "retryJitter",
+    "timeout",
+    "dataMapping",
+    "dataMappingMode",
+    "includeMetadata",
+    "emailSubject",
+    "emailTemplate",
+    "slackTitle",
+    "slackFallbackText",
+    "slackRules",
+    "slackFields",
+]
+
+export class RelayRequestError extends Error {
+    status: number
+
+    constructor(status: number, message: string) {
+        super(message)
+        this.name = "RelayRequestError"
+        this.status = status
+    }
+}
+
+function readBody(request: IncomingMessage, maxBytes: number) {
+    return new Promise<string>((resolve, reject) => {
+        const chunks: Buffer[] = []
+        let size = 0
+        request.on("data", (chunk: Buffer) => {
+            size += chunk.length
+            if (size > maxBytes) {
+                reject(new RelayRequestError(413, "Envelope is too large"))
+                request.destroy()
+                return
+            }
+            chunks.push(chunk)
+        })
+        request.on("end", () => resolve(Buffer.concat(chunks).toString("utf8")))
+        request.on("error", reject)
+    })
+}
+
+function header(request: IncomingMessage, name: string): string | undefined {
+    const value = request.headers[name.toLowerCase()]
+    return Array.isArray(value) ? value[0] : value
+}
+
+function safeEqual(a: string, b: string): boolean {
+    const left = Buffer.from(a)
+    const right = Buffer.from(b)
+    return left.length === right.length && timingSafeEqual(left, right)
+}
+
+async function verifySignature(
+    config: RelayServerConfig,
+    request: IncomingMessage,
+    body: string
+): Promise<void> {
+    if (!config.signingSecret) return
+
+    const signature = header(request, RELAY_SIGNATURE_HEADER)
+    const timestamp = header(request, RELAY_TIMESTAMP_HEADER)
+    if (!signature || !timestamp) {
+        throw new RelayRequestError(401, "Envelope is not signed")
+    }
+
+    const age = Math.abs(Date.now() / 1000 - Number(timestamp))
+    if (!(age <= (config.maxAgeSeconds ?? 300))) {
+        throw new RelayRequestError(401, "Signature has expired")
+    }
+
+    const expected = await signRequest(config.signingSecret, body, timestamp)
+    if (!safeEqual(signature, expected)) {
+        throw new RelayRequestError(401, "Invalid signature")
+    }
+}
+
+function parseEnvelope(body: string): RelayEnvelope {
+    let envelope: RelayEnvelope
+    try {
+        envelope = JSON.parse(body)
+    } catch {
+        throw new RelayRequestError(400, "Envelope is not valid JSON")
+    }
+
+    if (envelope?.version !== RELAY_ENVELOPE_VERSION) {
+        throw new RelayRequestError(
+            400,
+            `Unsupported envelope version: ${envelope?.version}`
+        )
+    }
+    if (!envelope.submission?.formData || !Array.isArray(envelope.actions)) {
+        throw new RelayRequestError(400, "Envelope is missing the submission")
+    }
+    return envelope
+}
+
+// Builds each action from the relay config plus the options the form may
+// set, refusing enabled actions the relay does not know about. Disabled
+// actions never run: the form only sends them because others depend on them.
+function resolveActions(
+    config: RelayServerConfig,
+    actions: SubmissionAction[]
+): SubmissionAction[] {
+    return actions.map((action) => {
+        const configured = config.actions[action.id]
+        const enabled = action.enabled !== false
+
+        if (!configured) {
+            if (enabled) {
+                throw new RelayRequestError(
+                    400,
+                    `Action "${action.id}" is not configured on this relay`
+                )
+            }
+            return {
+                id: action.id,
+                name: String(action.name || action.id),
+                type: String(action.type),
+                order: Number(action.order) || 0,
+                enabled: false,
+            }
+        }
+        if (!configured.type) {
+            throw new RelayRequestError(
+                500,
+                `Action "${action.id}" has no type in the relay config`
+            )
+        }
+
+        const fromForm: Partial<SubmissionAction> = Object.fromEntries(
+            FORM_ACTION_OPTIONS.filter((option) => option in action).map(
+                (option) => [option, action[option]]
+            )
+        )
+        // Without a configured EmailJS template ID the email action reads
+        // Email Body as one, like older forms did. Only the config may
+        // pick the template, so the form's body is dropped in that case.
+        if (
+            configured.type === "email" &&
+            (configured.emailProvider || "emailjs") === "emailjs" &&
+            !configured.emailTemplateId
+        ) {
+            delete fromForm.emailTemplate
+        }
+        return {
+            name: action.id,
+            order: 0,
+            ...fromForm,
+            ...configured,
+            enabled: enabled && configured.enabled !== false,
+            id: action.id,
+        }
+    })
+}
+
+// Keeps only the earlier results this relay issued a receipt for
+async function verifiedResults(
+    secret: string,
+    envelope: RelayEnvelope
+): Promise<Record<string, unknown>> {
+    const { sessionId } = envelope.submission
+    const entries = await Promise.all(
+        Object.entries(envelope.completedResults || {}).map(
+            async ([actionId, data]) => {
+                const receipt = envelope.receipts?.[actionId]
+                const expected = await createRelayReceipt(
+                    secret,
+                    sessionId,
+                    actionId,
+                    data
+                )
+                return receipt && safeEqual(receipt, expected)
+                    ? [[actionId, data] as const]
+                    : []
+            }
+        )
+    )
+    return Object.fromEntries(entries.flat())
+}
+
+async function issueReceipts(
+    secret: string,
+    sessionId: string,
+    results: SubmissionResult["results"]
+): Promise<Record<string, string>> {
+    return Object.fromEntries(
+        await Promise.all(
+            results
+                .filter((result) => result.success)
+                .map(async (result) => [
+                    result.actionId,
+                    await createRelayReceipt(
+                        secret,
+                        sessionId,
+                        result.actionId,
+                        result.data
+                    ),
+                ])
+        )
+    )
+}
+
+function setCorsHeaders(
+    config: RelayServerConfig,
+    request: IncomingMessage,
+    response: ServerResponse
+) {
+    const origin = header(request, "origin")
+    const allowed = config.allowedOrigins
+    if (!allowed || allowed.includes("*")) {
+        response.setHeader("Access-Control-Allow-Origin", "*")
+    } else if (origin && allowed.includes(origin)) {
+        response.setHeader("Access-Control-Allow-Origin", origin)
+        response.setHeader("Vary", "Origin")
+    }
+    response.setHeader("Access-Control-Allow-Methods", "POST, OPTIONS")
+    response.setHeader(
+        "Access-Control-Allow-Headers",
+        `Content-Type, ${RELAY_SIGNATURE_HEADER}, ${RELAY_TIMESTAMP_HEADER}`
+    )
+}
+
+function sendJson(response: ServerResponse, status: number, body: unknown) {
+    response.writeHead(status, { "Content-Type": "application/json" })
+    response.end(JSON.stringify(body))
+}
+
+export function createRelayHandler(config: RelayServerConfig) {
+    // Without a configured secret, receipts only survive until a restart
+    const receiptSecret =
+        config.receiptSecret || randomBytes(32).toString("hex")
+
+    return async (request: IncomingMessage, response: ServerResponse) => {
+        setCorsHeaders(config, request, response)
+
+        if (request.method === "OPTIONS") {
+            response.writeHead(204)
+            response.end()
+            return
+        }
+        if (request.method !== "POST") {
+            sendJson(response, 405, { error: "Use POST" })
+            return
+        }
+
+        try {
+            const body = await readBody(
+                request,
+                config.maxBodyBytes ?? 1024 * 1024
+            )
+            await verifySignature(config, request, body)
+            const envelope = parseEnvelope(body)
+
+            // Picked one by one: a forged envelope must not be able to
+            // set a relay or outbox of its own
+            const { options } = envelope
+            const service = new MultiActionSubmissionService({
+                actions: resolveActions(config, envelope.actions),
+                executeInParallel: options?.executeInParallel,
+                invalidConditionBehavior: options?.invalidConditionBehavior,
+                successPolicy: options?.successPolicy,
+                onAllSuccess: options?.onAllSuccess,
+                onAnyFailure: options?.onAnyFailure,
+                fields: options?.fields,
+                formTitle: options?.formTitle,
+            })
+            const result = await service.executePrepared(
+                envelope.submission,
+                await verifiedResults(receiptSecret, envelope)
+            )
+            result.receipts = await issueReceipts(
+                receiptSecret,
+                envelope.submission.sessionId,
+                result.results
+            )
+            sendJson(response, 200, result)
+        } catch (error) {
+            const status =
+                error instanceof RelayRequestError ? error.status : 500
+            const message =
+                error instanceof Error ? error.message : "Unknown error"
+            console.error(`❌ Relay request rejected (${status}):`, message)
+            sendJson(response, status, { error: message })
+        }
+    }
+}
@@ -0,0 +1,28 @@
+// Reference submission relay. Reads its config from relay/relay.config.json
+// (or RELAY_CONFIG) and listens on PORT, 8787 by default:
+//
+//   npm run relay
+//
+// RELAY_SIGNING_SECRET overrides the config's signingSecret so the config
+// file can be shared without it.
+
+import { createServer } from "node:http"
+import { readFileSync } from "node:fs"
+import { createRelayHandler, type RelayServerConfig } from "./relayHandler"
+
+const configPath = process.env.RELAY_CONFIG || "relay/relay.config.json"
+const config: RelayServerConfig = JSON.parse(readFileSync(configPath, "utf8"))
+config.signingSecret = process.env.RELAY_SIGNING_SECRET || config.signingSecret
+
+if (!config.signingSecret) {
+    console.warn("⚠️ No signing secret set, accepting unsigned envelopes")
+}
+
+const port = Number(process.env.PORT) || 8787
+
+createServer(createRelayHandler(config)).listen(port, () => {
+    console.log(
+        `🛰️ Submission relay listening on http://localhost:${port} with actions:`,
+        Object.keys(config.actions)
+    )
+})
@@ -0,0 +1,33 @@
+// Stand-in destination for trying the relay locally. Logs every request
+// and answers 200 with a JSON body, or with the status in ?status=:
+//
+//   npm run relay:stub
+//
+// Point the actions in relay/relay.config.json at http://localhost:8788.
+
+import { createServer } from "node:http"
+
+const port = Number(process.env.STUB_PORT) || 8788
+let received = 0
+
+createServer((request, response) => {
+    const chunks: Buffer[] = []
+    request.on("data", (chunk: Buffer) => chunks.push(chunk))
+    request.on("end", () => {
+        received++
+        const url = new URL(request.url || "/", `http://localhost:${port}`)
+        const body = Buffer.concat(chunks).toString("utf8")
+        console.log(`📥 #${received} ${request.method} ${url.pathname}`, {
+            headers: request.headers,
+            body,
+        })
+
+        const status = Number(url.searchParams.get("status")) || 200
+        response.writeHead(status, { "Content-Type": "application/json" })
+        response.end(
+            JSON.stringify({ id: `stub_${received}`, ok: status < 400 })
+        )
+    })
+}).listen(port, () => {
+    console.log(`🧪 Stub destination listening on http://localhost:${port}`)
+})
@@ -0,0 +1,22 @@
+import { defineConfig } from 'vite'
+
+// Builds the reference relay and the stub destination for Node
+export default defineConfig({
+  publicDir: false,
+  resolve: {
+    alias: {
+      framer: '/src/shims/framer.ts',
+    },
+  },
+  build: {
+    ssr: true,
+    outDir: 'dist/relay',
+    emptyOutDir: true,
+    rollupOptions: {
+      input: {
+        server: 'relay/server.ts',
+        stub: 'relay/stubServer.ts',
+      },
+    },
+  },
+})
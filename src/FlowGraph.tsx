@@ -0,0 +1,216 @@
+import { useMemo } from 'react'
+import { analyzeFlow, readFlowPages, type FlowEdge, type FlowPageSource } from './components/quiz-form/flowAnalysis'
+
+const NODE_WIDTH = 132
+const NODE_HEIGHT = 44
+const COLUMN = 160
+const ROW = 96
+const MARGIN = 24
+// Edges to null submit the form; no page ID can be empty
+const SUBMIT = ''
+
+interface GraphNode {
+  id: string
+  title: string
+  subtitle: string
+  x: number // Centre
+  y: number // Top
+}
+
+interface GraphEdge {
+  from: string
+  to: string
+  kind: FlowEdge['kind']
+  label: string
+  back: boolean
+}
+
+// Layered layout: back edges are found with a depth-first walk from the first
+// page, then every page sits one row below its deepest parent so the usual
+// top-to-bottom order reads like the form.
+function layoutGraph(fields: FlowPageSource[]) {
+  const pages = readFlowPages(fields)
+  const { edges, issues } = analyzeFlow(pages)
+  const ids = [...pages.map((page) => page.id), SUBMIT]
+
+  // Rules leading to the same page share one arrow
+  const merged = new Map<string, GraphEdge>()
+  edges.forEach((edge) => {
+    const to = edge.to ?? SUBMIT
+    const key = `${edge.from}\n${to}`
+    const existing = merged.get(key)
+    if (existing) {
+      existing.label = `${existing.label} / ${edge.label}`
+      if (edge.kind === 'rule') existing.kind = 'rule'
+    } else {
+      merged.set(key, { from: edge.from, to, kind: edge.kind, label: edge.kind === 'next' ? '' : edge.label, back: false })
+    }
+  })
+  const graphEdges = Array.from(merged.values())
+
+  const outgoing = new Map<string, GraphEdge[]>(ids.map((id) => [id, []]))
+  graphEdges.forEach((edge) => outgoing.get(edge.from)?.push(edge))
+
+  const state = new Map<string, 'active' | 'done'>()
+  const order: string[] = []
+  const visit = (id: string) => {
+    state.set(id, 'active')
+    outgoing.get(id)?.forEach((edge) => {
+      const target = state.get(edge.to)
+      if (target === 'active') edge.back = true
+      else if (!target) visit(edge.to)
+    })
+    state.set(id, 'done')
+    order.unshift(id)
+  }
+  ids.forEach((id) => {
+    if (!state.has(id)) visit(id)
+  })
+
+  const layer = new Map<string, number>(ids.map((id) => [id, 0]))
+  order.forEach((id) => {
+    outgoing.get(id)?.forEach((edge) => {
+      if (!edge.back) layer.set(edge.to, Math.max(layer.get(edge.to)!, layer.get(id)! + 1))
+    })
+  })
+
+  const rows: string[][] = []
+  ids.forEach((id) => {
+    const row = layer.get(id)!
+    rows[row] = [...(rows[row] ?? []), id]
+  })
+
+  const widest = Math.max(1, ...rows.map((row) => row.length))
+  const nodes = new Map<string, GraphNode>()
+  rows.forEach((row, r) => {
+    row.forEach((id, i) => {
+      const page = pages.find((p) => p.id === id)
+      const question = page?.question?.replace(/<[^>]+>/g, '') ?? ''
+      nodes.set(id, {
+        id,
+        title: id === SUBMIT ? 'Submit' : id,
+        subtitle: question.length > 20 ? `${question.slice(0, 19)}…` : question,
+        x: MARGIN + (widest * COLUMN) / 2 + (i - (row.length - 1) / 2) * COLUMN,
+        y: MARGIN + r * ROW,
+      })
+    })
+  })
+
+  // Back edges bulge to the right, so the width depends on them too
+  const paths = graphEdges.map((edge) => ({ edge, ...edgePath(nodes.get(edge.from)!, nodes.get(edge.to)!, edge.back) }))
+  const width = Math.max(widest * COLUMN, ...paths.map((path) => path.right)) + MARGIN * 2
+
+  const flagged = new Set(issues.filter((issue) => issue.level === 'error').flatMap((issue) => issue.pageIds))
+
+  return { nodes, paths, flagged, width, height: rows.length * ROW + MARGIN }
+}
+
+function edgePath(from: GraphNode, to: GraphNode, back: boolean) {
+  if (back || from.id === to.id) {
+    // Loop around the right-hand side of both pages
+    // A page that loops to itself leaves and returns at different heights
+    const self = from.id === to.id ? NODE_HEIGHT / 4 : 0
+    const x1 = from.x + NODE_WIDTH / 2
+    const y1 = from.y + NODE_HEIGHT / 2 - self
+    const x2 = to.x + NODE_WIDTH / 2
+    const y2 = to.y + NODE_HEIGHT / 2 + self
+    const bulge = Math.max(x1, x2) + 36 + Math.abs(y1 - y2) / 6
+    return {
+      d: `M ${x1} ${y1} C ${bulge} ${y1}, ${bulge} ${y2}, ${x2 + 4} ${y2}`,
+      // Midpoint of the cubic curve
+      mid: { x: (x1 + 6 * bulge + x2) / 8, y: (4 * y1 + 4 * y2) / 8 },
+      right: bulge,
+    }
+  }
+
+  const x1 = from.x
+  const y1 = from.y + NODE_HEIGHT
+  const x2 = to.x
+  const y2 = to.y - 4
+  const bend = (y2 - y1) / 2
+  return {
+    d: `M ${x1} ${y1} C ${x1} ${y1 + bend}, ${x2} ${y2 - bend}, ${x2} ${y2}`,
+    mid: { x: (x1 + x2) / 2, y: (y1 + y2) / 2 },
+    right: Math.max(x1, x2) + NODE_WIDTH / 2,
+  }
+}
+
+interface FlowGraphProps {
+  fields: FlowPageSource[]
+  currentPageId?: string
+  onSelectPage: (pageId: string) => void
+}
+
+export default function FlowGraph({ fields, currentPageId, onSelectPage }: FlowGraphProps) {
+  const graph = useMemo(() => layoutGraph(fields), [fields])
+
+  return (
+    <svg width={graph.width} height={graph.height} style={{ display: 'block', fontFamily: 'system-ui, sans-serif' }}>
+      <defs>
+        <marker id="flow-arrow" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="7" markerHeight="7" orient="auto">
+          <path d="M 0 0 L 10 5 L 0 10 z" fill="#555" />
+        </marker>
+      </defs>
+
+      {graph.paths.map(({ edge, d, mid }) => (
+        <g key={`${edge.from}->${edge.to}`}>
+          <path
+            d={d}
+            fill="none"
+            stroke={edge.kind === 'next' ? '#aaa' : '#555'}
+            strokeWidth={edge.kind === 'rule' ? 1.5 : 1}
+            strokeDasharray={edge.kind === 'default' ? '4 3' : undefined}
+            markerEnd="url(#flow-arrow)"
+          />
+          {edge.label && (
+            <text
+              x={mid.x}
+              y={mid.y}
+              textAnchor="middle"
+              dominantBaseline="middle"
+              fontSize={10}
+              fill="#333"
+              stroke="#fff"
+              strokeWidth={3}
+              paintOrder="stroke"
+            >
+              {edge.label.length > 28 ? `${edge.label.slice(0, 27)}…` : edge.label}
+              <title>{edge.label}</title>
+            </text>
+          )}
+        </g>
+      ))}
+
+      {Array.from(graph.nodes.values()).map((node) => {
+        const isSubmit = node.id === SUBMIT
+        const isCurrent = node.id === currentPageId
+        return (
+          <g
+            key={node.id || 'submit'}
+            transform={`translate(${node.x - NODE_WIDTH / 2}, ${node.y})`}
+            onClick={isSubmit ? undefined : () => onSelectPage(node.id)}
+            style={{ cursor: isSubmit ? 'default' : 'pointer' }}
+          >
+            <title>{isSubmit ? 'Form submission' : `Show ${node.id} in the preview`}</title>
+            <rect
+              width={NODE_WIDTH}
+              height={NODE_HEIGHT}
+              rx={isSubmit ? NODE_HEIGHT / 2 : 6}
+              fill={isCurrent ? '#632240' : isSubmit ? '#eef7ee' : '#fff'}
+              stroke={graph.flagged.has(node.id) ? '#b00020' : isCurrent ? '#632240' : '#bbb'}
+              strokeWidth={graph.flagged.has(node.id) || isCurrent ? 2 : 1}
+            />
+            <text x={NODE_WIDTH / 2} y={node.subtitle ? 17 : 27} textAnchor="middle" fontSize={12} fontWeight={600} fill={isCurrent ? '#fff' : '#333'}>
+              {node.title}
+            </text>
+            {node.subtitle && (
+              <text x={NODE_WIDTH / 2} y={33} textAnchor="middle" fontSize={10} fill={isCurrent ? '#f3e6ec' : '#777'}>
+                {node.subtitle}
+              </text>
+            )}
+          </g>
+        )
+      })}
+    </svg>
+  )
+}
@@ -1,5 +1,39 @@
-import { useEffect, useMemo, useState } from 'react'
+import { useCallback, useEffect, useMemo, useState } from 'react'
 import QuizForm from './components/quiz-form/QuizForm'
+import FlowGraph from './FlowGraph'
+import type { SubmissionErrorDetails, SubmissionResult } from './components/quiz-form/submissionService'
+import { validateCondition } from './components/quiz-form/conditionExpression'
+import { analyzeFlow, readFlowPages, type FlowPageSource } from './components/quiz-form/flowAnalysis'
+import { buildSlackMessage, type SlackMessageField } from './components/quiz-form/slackMessage'
+
+type PreviewField = SlackMessageField & { options?: string[]; sliderValue?: number }
+
+// Plausible answers so message previews have something to show
+function sampleAnswers(fields: PreviewField[]): Record<string, unknown> {
+  const answers: Record<string, unknown> = {}
+  fields.forEach((field) => {
+    switch (field.type) {
+      case 'radio':
+      case 'select':
+        answers[field.id] = field.options?.[0] ?? 'Option'
+        break
+      case 'checkbox':
+        answers[field.id] = (field.options ?? ['Option A', 'Option B']).slice(0, 2)
+        break
+      case 'number':
+        answers[field.id] = field.sliderValue ?? 42
+        break
+      case 'email':
+        answers[field.id] = 'jane@example.com'
+        break
+      case 'text':
+      case 'textarea':
+        answers[field.id] = 'Sample answer'
+        break
+    }
+  })
+  return answers
+}
 
 const defaultProps = {
   title: 'Multi-Step Form',
@@ -20,6 +54,7 @@ const defaultProps = {
   showProgressCount: true,
   submissionActions: [],
   executeInParallel: false,
+  dryRun: true,
   fields: [
     {
       id: 'q1',
@@ -56,6 +91,14 @@ export default function Inspector() {
   const [json, setJson] = useState(() => JSON.stringify(defaultProps, null, 2))
   const [parsed, setParsed] = useState<any>(defaultProps)
   const [error, setError] = useState<string | null>(null)
+  const [lastResult, setLastResult] = useState<SubmissionResult | null>(null)
+  const [showFlow, setShowFlow] = useState(false)
+  // Page the preview shows; clicking a graph node moves the preview there
+  const [currentPage, setCurrentPage] = useState<string | undefined>(undefined)
+  const handleSubmissionError = useCallback(
+    (details: SubmissionErrorDetails) => setLastResult(details.result ?? null),
+    []
+  )
 
   useEffect(() => {
     try {
@@ -67,6 +110,84 @@ export default function Inspector() {
     }
   }, [json])
 
+  // Parse every action condition up front so typos show before submitting
+  const conditionIssues = useMemo(() => {
+    const actions: Array<{ id?: string; name?: string; condition?: string; successCondition?: string }> =
+      Array.isArray(parsed?.submissionActions) ? parsed.submissionActions : []
+    const fieldIds: string[] = Array.isArray(parsed?.fields) ? parsed.fields.map((f: { id?: string }) => f?.id) : []
+
+    return actions.flatMap((action) => {
+      const result = validateCondition(action?.condition || '', fieldIds)
+      const label = action?.name || action?.id || 'Unnamed action'
+      // Success conditions read the response, so only their syntax is checked
+      const response = validateCondition(action?.successCondition || '')
+      return [
+        ...(result.valid
+          ? result.unknownReferences.map((ref) => ({
+              level: 'warning',
+              message: `${label}: condition references unknown field "${ref}"`,
+            }))
+          : [{ level: 'error', message: `${label}: ${result.error}` }]),
+        ...(response.valid ? [] : [{ level: 'error', message: `${label} success condition: ${response.error}` }]),
+      ]
+    })
+  }, [parsed])
+
+  const flowFields = useMemo<FlowPageSource[]>(
+    () => (Array.isArray(parsed?.fields) ? parsed.fields.filter((f: FlowPageSource) => f?.id) : []),
+    [parsed]
+  )
+
+  // Rule errors, missing pages, unreachable pages and loops in the page flow
+  const flowIssues = useMemo(() => {
+    return analyzeFlow(readFlowPages(flowFields)).issues
+  }, [flowFields])
+
+  // Slack actions rendered against sample answers, as they would be posted
+  const slackPreviews = useMemo(() => {
+    const actions: Array<{
+      id?: string
+      name?: string
+      type?: string
+      slackTitle?: string
+      slackFallbackText?: string
+      slackRules?: string
+      slackFields?: string
+    }> = Array.isArray(parsed?.submissionActions) ? parsed.submissionActions : []
+    const fields: PreviewField[] = Array.isArray(parsed?.fields) ? parsed.fields : []
+    const data = {
+      formData: sampleAnswers(fields),
+      sessionId: 'form_preview',
+      timestamp: new Date().toISOString(),
+      completionTime: 95000,
+    }
+
+    return actions
+      .filter((action) => action?.type === 'slack')
+      .map((action) => {
+        const label = action.name || action.id || 'Slack action'
+        try {
+          const message = buildSlackMessage(
+            {
+              title: action.slackTitle,
+              fallbackText: action.slackFallbackText,
+              rules: action.slackRules,
+              include: (action.slackFields || '')
+                .split(',')
+                .map((id) => id.trim())
+                .filter(Boolean),
+            },
+            data,
+            fields,
+            parsed?.title
+          )
+          return { label, message }
+        } catch (e) {
+          return { label, error: e instanceof Error ? e.message : String(e) }
+        }
+      })
+  }, [parsed])
+
   const sideStyle: React.CSSProperties = useMemo(
     () => ({
       width: 360,
@@ -84,9 +205,14 @@ export default function Inspector() {
       <aside style={sideStyle}>
         <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
           <strong>Inspector</strong>
-          <button onClick={() => setJson(JSON.stringify(defaultProps, null, 2))} style={{ padding: '6px 10px' }}>
-            Reset
-          </button>
+          <div style={{ display: 'flex', gap: 6 }}>
+            <button onClick={() => setShowFlow((show) => !show)} style={{ padding: '6px 10px' }}>
+              {showFlow ? 'Hide flow' : 'Show flow'}
+            </button>
+            <button onClick={() => setJson(JSON.stringify(defaultProps, null, 2))} style={{ padding: '6px 10px' }}>
+              Reset
+            </button>
+          </div>
         </div>
         <textarea
           value={json}
@@ -95,10 +221,75 @@ export default function Inspector() {
           style={{ flex: 1, fontFamily: 'ui-monospace, SFMono-Regular, Menlo, monospace', fontSize: 12, width: '100%', resize: 'none' }}
         />
         {error && <div style={{ color: '#b00020', fontSize: 12 }}>JSON error: {error}</div>}
+        {conditionIssues.map((issue, i) => (
+          <div key={i} style={{ color: issue.level === 'error' ? '#b00020' : '#9a6700', fontSize: 12 }}>
+            Condition {issue.level}: {issue.message}
+          </div>
+        ))}
+        {flowIssues.map((issue, i) => (
+          <div key={i} style={{ color: issue.level === 'error' ? '#b00020' : '#9a6700', fontSize: 12 }}>
+            Flow {issue.level}: {issue.message}
+          </div>
+        ))}
+        {slackPreviews.map((preview, i) => (
+          <details key={i} style={{ fontSize: 12 }}>
+            <summary>Slack preview: {preview.label}</summary>
+            {preview.error ? (
+              <div style={{ color: '#b00020' }}>{preview.error}</div>
+            ) : (
+              <>
+                <a
+                  href={`https://app.slack.com/block-kit-builder#${encodeURIComponent(
+                    JSON.stringify({ attachments: preview.message?.attachments })
+                  )}`}
+                  target="_blank"
+                  rel="noreferrer"
+                >
+                  Open in Block Kit Builder
+                </a>
+                <pre style={{ maxHeight: 200, overflow: 'auto', margin: '4px 0 0', fontSize: 11 }}>
+                  {JSON.stringify(preview.message, null, 2)}
+                </pre>
+              </>
+            )}
+          </details>
+        ))}
+        {lastResult?.dryRun && (
+          <details open style={{ fontSize: 12 }}>
+            <summary>Dry run: {lastResult.results.reduce((n, r) => n + (r.requests?.length ?? 0), 0)} requests captured</summary>
+            {lastResult.results.map((r) => (
+              <div key={r.actionId} style={{ marginTop: 6 }}>
+                <strong>{r.action}</strong> <span style={{ color: '#666' }}>({r.status.replace(/_/g, ' ')})</span>
+                {r.error && <div style={{ color: '#b00020' }}>{r.error}</div>}
+                {(r.requests ?? []).map((request, i) => (
+                  <pre key={i} style={{ maxHeight: 200, overflow: 'auto', margin: '4px 0 0', fontSize: 11 }}>
+                    {`${request.method} ${request.url}\n${JSON.stringify(request.headers, null, 2)}${
+                      request.body ? `\n\n${request.body}` : ''
+                    }`}
+                  </pre>
+                ))}
+              </div>
+            ))}
+          </details>
+        )}
       </aside>
       <main style={{ flex: 1, minWidth: 0 }}>
-        <QuizForm {...parsed} />
+        <QuizForm
+          {...parsed}
+          pageId={currentPage}
+          onPageChange={setCurrentPage}
+          onSubmissionSuccess={setLastResult}
+          onSubmissionError={handleSubmissionError}
+        />
       </main>
+      {showFlow && (
+        <section style={{ width: 480, borderLeft: '1px solid #eee', overflow: 'auto', background: '#fafafa' }}>
+          <div style={{ padding: '12px 12px 0', fontSize: 12, color: '#666' }}>
+            Click a page to show it in the preview. Dashed arrows are default next pages, grey arrows the page order.
+          </div>
+          <FlowGraph fields={flowFields} currentPageId={currentPage} onSelectPage={setCurrentPage} />
+        </section>
+      )}
     </div>
   )
 }
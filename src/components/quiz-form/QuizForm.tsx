@@ -6,7 +6,37 @@ import {
     useMemo,
     useRef,
 } from "react"
-import { addPropertyControls, ControlType } from "framer"
+import { addPropertyControls, ControlType, RenderTarget } from "framer"
+import {
+    MultiActionSubmissionService,
+    SubmissionFailedError,
+    getSubmissionActionTypeControls,
+    getSubmissionActionTypeNames,
+    onSubmissionActionTypesChange,
+    type FormSubmissionConfig,
+    type SubmissionAction,
+    type SubmissionErrorDetails,
+    type SubmissionResult,
+    type SubmissionSuccessPolicy,
+} from "./submissionService"
+import {
+    submissionOutbox,
+    type OutboxStatus,
+    type SubmissionOutbox,
+} from "./submissionOutbox"
+import { createFormSession, type FormSessionSeed } from "./formSession"
+import {
+    BRANCH_OPERATORS,
+    describeBranchRule,
+    formatBranchRules,
+    isEmptyAnswer,
+    matchesBranchRule,
+    readBranchRules,
+    type BranchRule,
+    type BranchRuleInput,
+} from "./branchRules"
+import { evaluateConditionExpression } from "./conditionExpression"
+import { analyzeFlow, type FlowIssue } from "./flowAnalysis"
 
 // ===================================================================
 // GLOBAL TYPE DECLARATIONS FOR GTM
@@ -15,7 +45,6 @@ import { addPropertyControls, ControlType } from "framer"
 declare global {
     interface Window {
         dataLayer: any[]
-        formStartTime?: number
     }
 }
 
@@ -171,537 +200,6 @@ const CustomContentComponents: Record<string, any> = {
     WeGotYou: WeGotYou || FallbackWeGotYou,
 }
 
-// ===================================================================
-// SUBMISSION ACTION TYPES
-// ===================================================================
-
-interface SubmissionAction {
-    id: string
-    name: string
-    type:
-        | "webhook"
-        | "email"
-        | "airtable"
-        | "google_sheets"
-        | "slack"
-        | "custom"
-    enabled: boolean
-    order: number
-
-    // Common fields
-    endpoint?: string
-    apiKey?: string
-
-    // Webhook specific
-    method?: "POST" | "PUT" | "PATCH"
-    headers?: string // JSON string
-
-    // Email specific
-    emailTo?: string
-    emailSubject?: string
-    emailTemplate?: string
-
-    // Airtable specific
-    baseId?: string
-    tableId?: string
-
-    // Slack specific
-    channel?: string
-    username?: string
-
-    // Conditional execution
-    condition?: string // JS expression like "formData.email.includes('@company.com')"
-    onSuccess?: "continue" | "stop"
-    onError?: "continue" | "stop" | "retry"
-    retryAttempts?: number
-
-    // Data transformation
-    dataMapping?: string // JSON string for field mapping
-    includeMetadata?: boolean
-}
-
-interface FormSubmissionConfig {
-    actions: SubmissionAction[]
-    executeInParallel?: boolean
-    includeAnalytics?: boolean
-    onAllSuccess?: string // Redirect URL or action
-    onAnyFailure?: string // Fallback action
-}
-
-// ===================================================================
-// ENHANCED SUBMISSION SERVICE
-// ===================================================================
-
-class MultiActionSubmissionService {
-    private config: FormSubmissionConfig
-    private analytics: Map<string, any> = new Map()
-
-    constructor(config: FormSubmissionConfig) {
-        this.config = config
-        console.log(
-            "🚀 MultiActionSubmissionService initialized with config:",
-            config
-        )
-    }
-
-    async executeActions(
-        formData: Record<string, any>,
-        navigationPath: string[]
-    ): Promise<{
-        success: boolean
-        results: Array<{
-            action: string
-            success: boolean
-            data?: any
-            error?: string
-        }>
-        summary: { successful: number; failed: number; skipped: number }
-    }> {
-        console.log("🚀 Executing submission actions...")
-
-        const submissionData = {
-            formData,
-            navigationPath,
-            timestamp: new Date().toISOString(),
-            sessionId: this.generateSessionId(),
-            ...(this.config.includeAnalytics && {
-                analytics: Array.from(this.analytics.values()),
-            }),
-        }
-
-        console.log("📊 Submission data prepared:", submissionData)
-
-        // Sort actions by order
-        const enabledActions = this.config.actions
-            .filter((action) => action.enabled)
-            .sort((a, b) => a.order - b.order)
-            .filter((action) =>
-                this.evaluateCondition(action.condition, formData)
-            )
-
-        console.log(`✅ ${enabledActions.length} actions ready for execution`)
-
-        const results: Array<{
-            action: string
-            success: boolean
-            data?: any
-            error?: string
-        }> = []
-        let summary = { successful: 0, failed: 0, skipped: 0 }
-
-        if (this.config.executeInParallel) {
-            console.log("🔄 Executing actions in parallel...")
-            // Execute all actions in parallel
-            const promises = enabledActions.map((action) =>
-                this.executeAction(action, submissionData)
-                    .then((result) => ({
-                        action: action.name,
-                        success: true,
-                        data: result,
-                    }))
-                    .catch((error) => ({
-                        action: action.name,
-                        success: false,
-                        error: error.message,
-                    }))
-            )
-
-            const parallelResults = await Promise.all(promises)
-            results.push(...parallelResults)
-
-            summary.successful = parallelResults.filter((r) => r.success).length
-            summary.failed = parallelResults.filter((r) => !r.success).length
-        } else {
-            console.log("🔄 Executing actions sequentially...")
-            // Execute actions sequentially
-            for (const action of enabledActions) {
-                try {
-                    console.log(`🔄 Executing action: ${action.name}`)
-                    const result = await this.executeActionWithRetry(
-                        action,
-                        submissionData
-                    )
-                    results.push({
-                        action: action.name,
-                        success: true,
-                        data: result,
-                    })
-                    summary.successful++
-
-                    console.log(
-                        `✅ Action ${action.name} completed successfully`
-                    )
-
-                    // Check if we should stop on success
-                    if (action.onSuccess === "stop") {
-                        console.log(
-                            `🛑 Stopping execution due to onSuccess: stop`
-                        )
-                        break
-                    }
-                } catch (error) {
-                    const errorMessage =
-                        error instanceof Error ? error.message : "Unknown error"
-                    console.error(
-                        `❌ Action ${action.name} failed:`,
-                        errorMessage
-                    )
-                    results.push({
-                        action: action.name,
-                        success: false,
-                        error: errorMessage,
-                    })
-                    summary.failed++
-
-                    // Check if we should stop on error
-                    if (action.onError === "stop") {
-                        console.log(
-                            `🛑 Stopping execution due to onError: stop`
-                        )
-                        break
-                    }
-                }
-            }
-        }
-
-        const overallSuccess = summary.failed === 0 && summary.successful > 0
-
-        console.log(
-            `🏁 Submission completed. Success: ${overallSuccess}`,
-            summary
-        )
-
-        return {
-            success: overallSuccess,
-            results,
-            summary,
-        }
-    }
-
-    private async executeActionWithRetry(
-        action: SubmissionAction,
-        data: any,
-        attempt: number = 1
-    ): Promise<any> {
-        try {
-            return await this.executeAction(action, data)
-        } catch (error) {
-            const maxAttempts = action.retryAttempts || 1
-
-            if (attempt < maxAttempts && action.onError === "retry") {
-                console.log(
-                    `🔄 Retrying action ${action.name}, attempt ${attempt + 1}/${maxAttempts}`
-                )
-                // Exponential backoff
-                await new Promise((resolve) =>
-                    setTimeout(resolve, Math.pow(2, attempt) * 1000)
-                )
-                return this.executeActionWithRetry(action, data, attempt + 1)
-            }
-
-            throw error
-        }
-    }
-
-    private async executeAction(
-        action: SubmissionAction,
-        data: any
-    ): Promise<any> {
-        // Transform data if mapping is provided
-        const transformedData = this.transformData(data, action.dataMapping)
-
-        // Add metadata if enabled
-        const finalData = action.includeMetadata
-            ? { ...transformedData, _metadata: this.getMetadata(action) }
-            : transformedData
-
-        switch (action.type) {
-            case "webhook":
-                return this.executeWebhookAction(action, finalData)
-            case "email":
-                return this.executeEmailAction(action, finalData)
-            case "airtable":
-                return this.executeAirtableAction(action, finalData)
-            case "google_sheets":
-                return this.executeGoogleSheetsAction(action, finalData)
-            case "slack":
-                return this.executeSlackAction(action, finalData)
-            case "custom":
-                return this.executeCustomAction(action, finalData)
-            default:
-                throw new Error(`Unknown action type: ${action.type}`)
-        }
-    }
-
-    private async executeWebhookAction(
-        action: SubmissionAction,
-        data: any
-    ): Promise<any> {
-        if (!action.endpoint) throw new Error("Webhook endpoint not configured")
-
-        let headers: Record<string, string> = {
-            "Content-Type": "application/json",
-        }
-
-        if (action.headers) {
-            try {
-                headers = { ...headers, ...JSON.parse(action.headers) }
-            } catch (e) {
-                console.warn("Invalid headers JSON for action:", action.name)
-            }
-        }
-
-        if (action.apiKey) {
-            headers["Authorization"] = `Bearer ${action.apiKey}`
-        }
-
-        const response = await fetch(action.endpoint, {
-            method: action.method || "POST",
-            headers,
-            body: JSON.stringify(data),
-        })
-
-        if (!response.ok) {
-            throw new Error(
-                `Webhook failed: ${response.status} ${response.statusText}`
-            )
-        }
-
-        return response.json()
-    }
-
-    private async executeEmailAction(
-        action: SubmissionAction,
-        data: any
-    ): Promise<any> {
-        // Example implementation for EmailJS
-        const emailData = {
-            to_email: action.emailTo,
-            subject: action.emailSubject || "Form Submission",
-            message: this.formatDataForEmail(data),
-            template_id: action.emailTemplate || "default",
-        }
-
-        // This would integrate with your preferred email service
-        console.log("📧 Sending email with data:", emailData)
-        return { sent: true, messageId: `email_${Date.now()}` }
-    }
-
-    private async executeAirtableAction(
-        action: SubmissionAction,
-        data: any
-    ): Promise<any> {
-        if (!action.endpoint || !action.apiKey) {
-            throw new Error("Airtable configuration incomplete")
-        }
-
-        const airtableData = {
-            records: [
-                {
-                    fields: this.flattenDataForAirtable(data),
-                },
-            ],
-        }
-
-        const response = await fetch(action.endpoint, {
-            method: "POST",
-            headers: {
-                Authorization: `Bearer ${action.apiKey}`,
-                "Content-Type": "application/json",
-            },
-            body: JSON.stringify(airtableData),
-        })
-
-        if (!response.ok) {
-            throw new Error(
-                `Airtable submission failed: ${response.statusText}`
-            )
-        }
-
-        return response.json()
-    }
-
-    private async executeGoogleSheetsAction(
-        action: SubmissionAction,
-        data: any
-    ): Promise<any> {
-        if (!action.endpoint)
-            throw new Error("Google Sheets endpoint not configured")
-
-        const sheetData = {
-            values: [Object.values(this.flattenDataForSheets(data))],
-        }
-
-        const response = await fetch(action.endpoint, {
-            method: "POST",
-            headers: {
-                "Content-Type": "application/json",
-                ...(action.apiKey && {
-                    Authorization: `Bearer ${action.apiKey}`,
-                }),
-            },
-            body: JSON.stringify(sheetData),
-        })
-
-        if (!response.ok) {
-            throw new Error(
-                `Google Sheets submission failed: ${response.statusText}`
-            )
-        }
-
-        return response.json()
-    }
-
-    private async executeSlackAction(
-        action: SubmissionAction,
-        data: any
-    ): Promise<any> {
-        if (!action.endpoint)
-            throw new Error("Slack webhook URL not configured")
-
-        const slackMessage = {
-            channel: action.channel,
-            username: action.username || "Form Bot",
-            text: this.formatDataForSlack(data),
-            attachments: [
-                {
-                    color: "good",
-                    fields: Object.entries(data.formData || {}).map(
-                        ([key, value]) => ({
-                            title: key,
-                            value: Array.isArray(value)
-                                ? value.join(", ")
-                                : String(value),
-                            short: true,
-                        })
-                    ),
-                },
-            ],
-        }
-
-        const response = await fetch(action.endpoint, {
-            method: "POST",
-            headers: { "Content-Type": "application/json" },
-            body: JSON.stringify(slackMessage),
-        })
-
-        if (!response.ok) {
-            throw new Error(`Slack notification failed: ${response.statusText}`)
-        }
-
-        return { sent: true }
-    }
-
-    private async executeCustomAction(
-        action: SubmissionAction,
-        data: any
-    ): Promise<any> {
-        // Allow custom JavaScript execution (be careful with security)
-        if (action.endpoint) {
-            // Treat as custom webhook
-            return this.executeWebhookAction(action, data)
-        }
-
-        // Custom processing logic could go here
-        console.log("🔧 Custom action executed:", action.name, data)
-        return { processed: true }
-    }
-
-    private evaluateCondition(
-        condition: string | undefined,
-        formData: Record<string, any>
-    ): boolean {
-        if (!condition || condition.trim() === "") return true
-
-        try {
-            // Simple condition evaluation (enhance as needed)
-            // Example: "formData.email.includes('@company.com')"
-            const func = new Function("formData", `return ${condition}`)
-            return Boolean(func(formData))
-        } catch (error) {
-            console.warn("⚠️ Invalid condition expression:", condition, error)
-            return true // Default to true on error
-        }
-    }
-
-    private transformData(data: any, mapping: string | undefined): any {
-        if (!mapping || mapping.trim() === "") return data
-
-        try {
-            const mappingObj = JSON.parse(mapping)
-            const transformed: any = {}
-
-            Object.entries(mappingObj).forEach(([outputKey, inputPath]) => {
-                // Simple dot notation support
-                const value = this.getNestedValue(data, inputPath as string)
-                if (value !== undefined) {
-                    transformed[outputKey] = value
-                }
-            })
-
-            return Object.keys(transformed).length > 0 ? transformed : data
-        } catch (error) {
-            console.warn("⚠️ Invalid data mapping JSON:", mapping, error)
-            return data
-        }
-    }
-
-    private getNestedValue(obj: any, path: string): any {
-        return path.split(".").reduce((current, key) => current?.[key], obj)
-    }
-
-    private getMetadata(action: SubmissionAction): any {
-        return {
-            actionId: action.id,
-            actionName: action.name,
-            actionType: action.type,
-            executedAt: new Date().toISOString(),
-            userAgent: typeof window !== "undefined" ? navigator.userAgent : "",
-            timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
-        }
-    }
-
-    private formatDataForEmail(data: any): string {
-        let message = "New form submission:\n\n"
-
-        if (data.formData) {
-            Object.entries(data.formData).forEach(([key, value]) => {
-                message += `${key}: ${Array.isArray(value) ? value.join(", ") : value}\n`
-            })
-        }
-
-        return message
-    }
-
-    private formatDataForSlack(data: any): string {
-        return `New form submission received with ${Object.keys(data.formData || {}).length} fields`
-    }
-
-    private flattenDataForAirtable(data: any): Record<string, any> {
-        const flattened: Record<string, any> = {
-            "Submitted At": data.timestamp,
-            "Session ID": data.sessionId,
-            "Completion Time": data.completionTime,
-        }
-
-        if (data.formData) {
-            Object.entries(data.formData).forEach(([key, value]) => {
-                flattened[key] = Array.isArray(value) ? value.join(", ") : value
-            })
-        }
-
-        return flattened
-    }
-
-    private flattenDataForSheets(data: any): Record<string, any> {
-        return this.flattenDataForAirtable(data) // Same format for now
-    }
-
-    private generateSessionId(): string {
-        return `form_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
-    }
-}
-
 // ===================================================================
 // TYPE DEFINITIONS
 // ===================================================================
@@ -736,10 +234,10 @@ interface FormPage {
     required?: boolean
     placeholder?: string
     hideNextButton?: boolean
-    conditionalNext?: {
-        [answer: string]: string // answer value -> next field ID
-    }
+    branchRules?: BranchRule[] // Checked in order, the first match picks the next page
+    branchRuleErrors?: string[] // Rules left out because they do not parse
     defaultNext?: string
+    visibleWhen?: string // Condition expression, e.g. q2 == "Yes"; hidden pages are skipped
     // Progress process specific properties
     progressTitle?: string
     progressSteps?: ProgressStep[]
@@ -782,8 +280,10 @@ interface FramerFormPage {
     includeInGtmEvent?: boolean
     // Framer-specific conditional logic controls
     useConditionalLogic?: boolean
-    conditionalRules?: string // "Yes:q4,No:q3"
+    conditionalRules?: string // "Yes: q4, \"Yes, daily\": q5, < 18: q9", see branchRules.ts
+    branchRules?: BranchRuleInput[] // Checked before Conditional Rules
     defaultNext?: string
+    visibleWhen?: string
     // Email options
     emailTitle?: string
     emailSubtext?: string
@@ -822,6 +322,7 @@ interface QuizFormProps {
     borderRadius: number
     successMessage: string
     errorMessage: string
+    offlineMessage?: string
     submitButtonText: string
     previousButtonText: string
     nextButtonText: string
@@ -830,8 +331,20 @@ interface QuizFormProps {
     style?: React.CSSProperties
     submissionActions?: SubmissionAction[]
     executeInParallel?: boolean
-    onSubmissionSuccess?: (results: any) => void
-    onSubmissionError?: (error: string) => void
+    invalidConditionBehavior?: "skip" | "run"
+    successPolicy?: SubmissionSuccessPolicy
+    onAllSuccess?: string
+    onAnyFailure?: string
+    relayEndpoint?: string
+    relaySigningSecret?: string
+    dryRun?: boolean
+    sessionId?: string
+    sessionParam?: string
+    showFlowIssues?: boolean
+    onSubmissionSuccess?: (results: SubmissionResult) => void
+    onSubmissionError?: (error: SubmissionErrorDetails) => void
+    pageId?: string // Page to show, the form jumps there when this changes
+    onPageChange?: (fieldId: string) => void
 }
 
 interface FormHeaderProps {
@@ -882,6 +395,10 @@ interface ContentPageProps {
     buttonTextColor: string
 }
 
+interface FlowIssuesOverlayProps {
+    issues: FlowIssue[]
+}
+
 interface FormButtonProps {
     isLastStep: boolean
     isSubmitting: boolean
@@ -918,49 +435,76 @@ const getFieldIndex = (fields: FormPage[], fieldId: string): number => {
     return index
 }
 
+// Pages without visibleWhen are always shown. A condition that does not
+// parse shows the page, so a typo never hides a question.
+const isFieldVisible = (
+    field: FormPage,
+    answers: Record<string, unknown>
+): boolean => {
+    if (!field.visibleWhen) return true
+    try {
+        return evaluateConditionExpression(field.visibleWhen, answers)
+    } catch (error) {
+        console.warn(
+            `⚠️ Invalid visibleWhen on ${field.id}, showing the page:`,
+            error
+        )
+        return true
+    }
+}
+
+// Drops the answers of hidden pages. Pages are checked in order, so a page
+// that depends on a hidden page's stale answer is hidden as well.
+const getVisibleAnswers = <T,>(
+    fields: FormPage[],
+    answers: Record<string, T>
+): Record<string, T> => {
+    const visible = { ...answers }
+    fields.forEach((field) => {
+        if (!isFieldVisible(field, visible)) {
+            delete visible[field.id]
+        }
+    })
+    return visible
+}
+
 const evaluateConditionalNext = (
     currentField: FormPage,
-    fieldValue: any,
+    answers: Record<string, any>,
     fields: FormPage[]
 ): string | null => {
     // If no conditional logic, return null (use default linear flow)
-    if (!currentField.conditionalNext) {
+    if (!currentField.branchRules?.length && !currentField.defaultNext) {
         return null
     }
 
     console.log("🔀 Evaluating conditional logic:", {
         fieldId: currentField.id,
-        fieldValue,
-        conditionalNext: currentField.conditionalNext,
+        fieldValue: answers[currentField.id],
+        branchRules: currentField.branchRules,
     })
 
-    // Handle different field types
-    let answerKey: string
-
-    if (currentField.type === "radio" || currentField.type === "select") {
-        answerKey = fieldValue?.toString() || ""
-    } else if (currentField.type === "checkbox") {
-        // For checkboxes, you might want to evaluate based on specific selections
-        // This is a simple implementation - you can make it more sophisticated
-        answerKey = Array.isArray(fieldValue) ? fieldValue.join(",") : ""
-    } else {
-        answerKey = fieldValue?.toString() || ""
-    }
-
-    console.log("🔀 Answer key for conditional logic:", answerKey)
-
-    // Check if there's a condition for this answer
-    const nextFieldId = currentField.conditionalNext[answerKey]
+    // First matching rule wins
+    for (const rule of currentField.branchRules || []) {
+        const label = describeBranchRule(rule, currentField.id)
+        let matched = false
+        try {
+            matched = matchesBranchRule(
+                rule,
+                answers[rule.field || currentField.id]
+            )
+        } catch (error) {
+            console.warn(`⚠️ Skipping branch rule "${label}":`, error)
+            continue
+        }
+        if (!matched) continue
 
-    if (nextFieldId) {
         // Verify the target field exists
-        const targetField = findFieldById(fields, nextFieldId)
-        if (targetField) {
-            console.log("✅ Conditional next field found:", nextFieldId)
-            return nextFieldId
-        } else {
-            console.warn(`⚠️ Conditional next field not found: ${nextFieldId}`)
+        if (findFieldById(fields, rule.next)) {
+            console.log(`✅ Branch rule matched: ${label} → ${rule.next}`)
+            return rule.next
         }
+        console.warn(`⚠️ Conditional next field not found: ${rule.next}`)
     }
 
     // Fall back to defaultNext if specified
@@ -986,60 +530,54 @@ const evaluateConditionalNext = (
 
 const getNextFieldId = (
     currentField: FormPage,
-    fieldValue: any,
-    fields: FormPage[]
+    answers: Record<string, any>,
+    fields: FormPage[],
+    skipped: Set<string> = new Set()
 ): string | null => {
-    // First, try conditional logic
-    const conditionalNext = evaluateConditionalNext(
-        currentField,
-        fieldValue,
-        fields
-    )
-    if (conditionalNext) {
-        return conditionalNext
+    // First, try conditional logic, then fall back to linear progression
+    let nextFieldId = evaluateConditionalNext(currentField, answers, fields)
+    if (!nextFieldId) {
+        const currentIndex = getFieldIndex(fields, currentField.id)
+        if (currentIndex >= 0 && currentIndex < fields.length - 1) {
+            nextFieldId = fields[currentIndex + 1].id
+            console.log("🔀 Using linear next field:", nextFieldId)
+        }
     }
 
-    // Fall back to linear progression
-    const currentIndex = getFieldIndex(fields, currentField.id)
-    if (currentIndex >= 0 && currentIndex < fields.length - 1) {
-        const nextField = fields[currentIndex + 1]
-        console.log("🔀 Using linear next field:", nextField.id)
-        return nextField.id
+    if (!nextFieldId) {
+        console.log("🏁 End of form reached")
+        return null // End of form
     }
 
-    console.log("🏁 End of form reached")
-    return null // End of form
-}
-
-function parseConditionalRules(
-    conditionalRules: string
-): { [key: string]: string } | undefined {
-    if (!conditionalRules || conditionalRules.trim() === "") {
-        return undefined
+    // Hidden pages are passed through, continuing from where they lead
+    const nextField = findFieldById(fields, nextFieldId)
+    if (nextField && !isFieldVisible(nextField, answers)) {
+        if (skipped.has(nextFieldId)) {
+            console.warn(`⚠️ Hidden pages loop back to ${nextFieldId}`)
+            return null
+        }
+        console.log("🙈 Skipping hidden field:", nextFieldId)
+        skipped.add(nextFieldId)
+        return getNextFieldId(nextField, answers, fields, skipped)
     }
 
-    try {
-        const rules: { [key: string]: string } = {}
-        const pairs = conditionalRules.split(",")
+    return nextFieldId
+}
 
-        pairs.forEach((pair) => {
-            const [answer, fieldId] = pair.split(":")
-            if (answer && fieldId) {
-                rules[answer.trim()] = fieldId.trim()
-            }
-        })
+function parseConditionalRules(field: FramerFormPage): {
+    rules: BranchRule[]
+    errors: string[]
+} {
+    const { rules, errors } = readBranchRules(field)
+    errors.forEach((error) => console.error(`❌ ${field.id} ${error}`))
 
-        const result = Object.keys(rules).length > 0 ? rules : undefined
-        console.log("🔀 Parsed conditional rules:", result)
-        return result
-    } catch (error) {
-        console.warn(
-            "⚠️ Error parsing conditional rules:",
-            conditionalRules,
-            error
+    if (rules.length > 0) {
+        console.log(
+            `🔀 Parsed conditional rules for ${field.id}:`,
+            formatBranchRules(rules)
         )
-        return undefined
     }
+    return { rules, errors }
 }
 
 // ===================================================================
@@ -1093,6 +631,7 @@ function convertFramerFieldsToFormPages(
             placeholder: field.placeholder,
             hideNextButton: field.hideNextButton,
             includeInGtmEvent: field.includeInGtmEvent ?? true,
+            visibleWhen: field.visibleWhen?.trim() || undefined,
             // Per-page header controls
             hideBackButton: field.hideBackButton,
             hideProgressCount: field.hideProgressCount,
@@ -1133,10 +672,12 @@ function convertFramerFieldsToFormPages(
 
         // Add conditional logic if enabled
         if (field.useConditionalLogic) {
-            if (field.conditionalRules) {
-                formPage.conditionalNext = parseConditionalRules(
-                    field.conditionalRules
-                )
+            const { rules, errors } = parseConditionalRules(field)
+            if (rules.length > 0) {
+                formPage.branchRules = rules
+            }
+            if (errors.length > 0) {
+                formPage.branchRuleErrors = errors
             }
             if (field.defaultNext) {
                 formPage.defaultNext = field.defaultNext
@@ -1179,6 +720,16 @@ function useIsMobile(breakpoint: number = 768): boolean {
     return isMobile
 }
 
+function useOutboxStatus(outbox: SubmissionOutbox): OutboxStatus {
+    const [status, setStatus] = useState(() => outbox.getStatus())
+
+    useEffect(() => {
+        setStatus(outbox.getStatus())
+        return outbox.subscribe(setStatus)
+    }, [outbox])
+
+    return status
+}
 
 // ===================================================================
 // ENHANCED FORM LOGIC HOOK
@@ -1187,7 +738,22 @@ function useIsMobile(breakpoint: number = 768): boolean {
 const useFormLogic = (
     fields: FormPage[],
     submissionActions: SubmissionAction[],
-    executeInParallel: boolean
+    executeInParallel: boolean,
+    submissionOptions: Pick<
+        FormSubmissionConfig,
+        | "invalidConditionBehavior"
+        | "formTitle"
+        | "successPolicy"
+        | "onAllSuccess"
+        | "onAnyFailure"
+        | "relay"
+        | "dryRun"
+    > = {},
+    sessionSeed: FormSessionSeed = {},
+    navigation: {
+        pageId?: string
+        onPageChange?: (fieldId: string) => void
+    } = {}
 ) => {
     const [currentFieldId, setCurrentFieldId] = useState<string>(
         fields[0]?.id || ""
@@ -1199,7 +765,54 @@ const useFormLogic = (
     const [submitted, setSubmitted] = useState(false)
     const [error, setError] = useState(false)
     const [isSubmitting, setIsSubmitting] = useState(false)
-    const [submissionResult, setSubmissionResult] = useState<any>(null)
+    const [submissionResult, setSubmissionResult] =
+        useState<SubmissionResult | null>(null)
+    const [submissionError, setSubmissionError] =
+        useState<SubmissionErrorDetails | null>(null)
+    const outboxStatus = useOutboxStatus(submissionOutbox)
+
+    // One session per visit, shared by GTM events and by step and final
+    // submissions so receivers can update the record an onStep action
+    // created
+    const [session] = useState(() => createFormSession(sessionSeed))
+
+    const trackEvent = useCallback(
+        (event: string, payload: Record<string, unknown> = {}) =>
+            pushGTM(event, { sessionId: session.id, ...payload }),
+        [session]
+    )
+    // Outputs of onStep actions, passed to the final submission
+    const stepResultsRef = useRef<Record<string, any>>({})
+    // Last answer sent per step, so moving back and forth does not resend
+    const sentStepAnswersRef = useRef<Record<string, string>>({})
+
+    // Replays need the credentials, which the outbox never stores
+    useEffect(() => {
+        submissionOutbox.setCredentials(
+            submissionActions,
+            submissionOptions.relay
+        )
+    }, [submissionActions, submissionOptions.relay])
+
+    // Report submissions the outbox gave up on, under their own session
+    useEffect(
+        () =>
+            submissionOutbox.onDrop((entry) =>
+                trackEvent("form_submission_dropped", {
+                    formName: "quiz_form",
+                    sessionId: entry.sessionId,
+                    droppedActions: entry.actions.map((action) => action.id),
+                    attempts: entry.attempts,
+                    error: entry.lastError,
+                })
+            ),
+        [trackEvent]
+    )
+
+    // Replay anything left in the outbox by a previous visit
+    useEffect(() => {
+        submissionOutbox.start()
+    }, [])
 
     // Track the last user interaction to prevent auto-advance on non-user changes
     const lastUserInteractionRef = useRef<{
@@ -1213,7 +826,28 @@ const useFormLogic = (
     )
 
     const currentField = findFieldById(fields, currentFieldId)
-    const currentStep = getFieldIndex(fields, currentFieldId)
+
+    // Hidden pages do not count as steps
+    const visibleFields = useMemo(() => {
+        const answers = getVisibleAnswers(fields, formData)
+        return fields.filter((field) => isFieldVisible(field, answers))
+    }, [fields, formData])
+    // A page that a later answer hid keeps the step of the nearest visible
+    // page before it, so progress never reads -1
+    const currentStep = useMemo(() => {
+        const index = visibleFields.findIndex(
+            (field) => field.id === currentFieldId
+        )
+        if (index !== -1) return index
+        const position = fields.findIndex(
+            (field) => field.id === currentFieldId
+        )
+        const visibleBefore = fields
+            .slice(0, Math.max(position, 0))
+            .filter((field) => visibleFields.includes(field)).length
+        return Math.max(visibleBefore - 1, 0)
+    }, [fields, visibleFields, currentFieldId])
+    const totalSteps = visibleFields.length
 
     // Initialize with first field if current field is invalid
     useEffect(() => {
@@ -1226,23 +860,17 @@ const useFormLogic = (
         }
     }, [currentField, currentFieldId, fields])
 
-    // Track form start time on mount
+    // Track form start on mount
     useEffect(() => {
-        if (typeof window !== "undefined") {
-            window.formStartTime = Date.now()
-            pushGTM("form_start", {
-                formName: "quiz_form",
-                totalFields: fields.length,
-                startTime: new Date().toISOString(),
-            })
-        }
-
-        return () => {
-            if (typeof window !== "undefined") {
-                delete window.formStartTime
-            }
-        }
-    }, [fields.length])
+        trackEvent("form_start", {
+            formName: "quiz_form",
+            totalFields: fields.length,
+            startTime: new Date(session.startedAt).toISOString(),
+            utm: session.utm,
+            referrer: session.referrer,
+            landingUrl: session.landingUrl,
+        })
+    }, [fields.length, session, trackEvent])
 
     const handleInputChange = useCallback(
         (fieldId: string, value: any, isUserInteraction: boolean = false) => {
@@ -1268,7 +896,7 @@ const useFormLogic = (
                     backNavigationTimeRef.current = null // Clear back navigation time on user interaction
 
                     const field = fields.find((f) => f.id === fieldId)
-                    pushGTM("form_field_interaction", {
+                    trackEvent("form_field_interaction", {
                         formName: "quiz_form",
                         fieldId,
                         fieldType: field?.type || "unknown",
@@ -1278,7 +906,7 @@ const useFormLogic = (
                 }
             })
         },
-        [fields]
+        [fields, trackEvent]
     )
 
     const handleCheckboxToggle = useCallback(
@@ -1305,7 +933,7 @@ const useFormLogic = (
                     // Send checkbox interaction event to GTM
                     if (isUserInteraction) {
                         const field = fields.find((f) => f.id === fieldId)
-                        pushGTM("form_checkbox_toggle", {
+                        trackEvent("form_checkbox_toggle", {
                             formName: "quiz_form",
                             fieldId,
                             fieldQuestion: field?.question || "",
@@ -1333,7 +961,7 @@ const useFormLogic = (
                 }
             })
         },
-        [fields]
+        [fields, trackEvent]
     )
 
     const validateCurrentField = useCallback(
@@ -1362,6 +990,85 @@ const useFormLogic = (
         [currentField, formData]
     )
 
+    const createSubmissionService = useCallback(
+        () =>
+            new MultiActionSubmissionService({
+                actions: submissionActions,
+                executeInParallel: executeInParallel || false,
+                includeAnalytics: true,
+                outbox: submissionOutbox,
+                fields: fields.map(({ id, question, type, options }) => ({
+                    id,
+                    question,
+                    type,
+                    options,
+                })),
+                session,
+                ...submissionOptions,
+            }),
+        [
+            submissionActions,
+            executeInParallel,
+            fields,
+            session,
+            submissionOptions,
+        ]
+    )
+
+    // Sends the onStep actions waiting for this field with the answers so
+    // far, once the field has an answer. Runs in the background so a slow
+    // or failing action never holds up the next step.
+    const submitStep = useCallback(
+        (fieldId: string, answers: Record<string, any>, path: string[]) => {
+            const waiting = submissionActions.some(
+                (action) =>
+                    action.enabled &&
+                    action.trigger === "onStep" &&
+                    action.triggerFieldId === fieldId
+            )
+            const answer = JSON.stringify(answers[fieldId] ?? null)
+            if (
+                !waiting ||
+                isEmptyAnswer(answers[fieldId]) ||
+                sentStepAnswersRef.current[fieldId] === answer
+            ) {
+                return
+            }
+            sentStepAnswersRef.current[fieldId] = answer
+
+            createSubmissionService()
+                .executeStepActions(
+                    fieldId,
+                    answers,
+                    path,
+                    stepResultsRef.current
+                )
+                .then((result) => {
+                    if (!result) return
+                    result.results
+                        .filter((r) => r.success)
+                        .forEach((r) => {
+                            stepResultsRef.current[r.actionId] = r.data
+                        })
+                    // Try again the next time the visitor passes this step
+                    if (!result.success && !result.queued) {
+                        delete sentStepAnswersRef.current[fieldId]
+                    }
+                    trackEvent("form_step_submission", {
+                        formName: "quiz_form",
+                        fieldId,
+                        success: result.success,
+                        submissionResult: result.summary,
+                    })
+                })
+                .catch((error) => {
+                    delete sentStepAnswersRef.current[fieldId]
+                    console.error("❌ Step submission failed:", error)
+                })
+        },
+        [submissionActions, createSubmissionService, trackEvent]
+    )
+
     const handleNext = useCallback(
         (overrideValue?: any) => {
             if (!currentField) {
@@ -1378,7 +1085,7 @@ const useFormLogic = (
                 console.warn("⚠️ Validation failed for current field")
 
                 // Track validation error in GTM
-                pushGTM("form_validation_error", {
+                trackEvent("form_validation_error", {
                     formName: "quiz_form",
                     fieldId: currentField.id,
                     fieldQuestion:
@@ -1397,11 +1104,13 @@ const useFormLogic = (
                     ? overrideValue
                     : formData[currentField.id]
 
-            const nextFieldId = getNextFieldId(
-                currentField,
-                currentValue,
-                fields
-            )
+            const answers = getVisibleAnswers(fields, {
+                ...formData,
+                [currentField.id]: currentValue,
+            })
+            submitStep(currentField.id, answers, navigationHistory)
+
+            const nextFieldId = getNextFieldId(currentField, answers, fields)
 
             if (nextFieldId) {
                 console.log("✅ Moving to next field:", nextFieldId)
@@ -1409,7 +1118,7 @@ const useFormLogic = (
                 // Track navigation to next field in GTM
                 {
                     const nextField = fields.find((f) => f.id === nextFieldId)
-                    pushGTM("form_navigation", {
+                    trackEvent("form_navigation", {
                         formName: "quiz_form",
                         direction: "forward",
                         fromFieldId: currentField.id,
@@ -1423,9 +1132,9 @@ const useFormLogic = (
                             nextField?.progressTitle ||
                             "",
                         currentStep: currentStep + 1,
-                        totalSteps: fields.length,
+                        totalSteps,
                         progressPercentage:
-                            ((currentStep + 2) / fields.length) * 100,
+                            ((currentStep + 2) / totalSteps) * 100,
                     })
                 }
 
@@ -1440,7 +1149,17 @@ const useFormLogic = (
                 console.log("🏁 End of form reached")
             }
         },
-        [currentField, fields, formData, validateCurrentField, currentStep]
+        [
+            currentField,
+            fields,
+            formData,
+            validateCurrentField,
+            currentStep,
+            totalSteps,
+            submitStep,
+            navigationHistory,
+            trackEvent,
+        ]
     )
 
     const handlePrevious = useCallback(() => {
@@ -1449,10 +1168,22 @@ const useFormLogic = (
         navigationTypeRef.current = "back"
         backNavigationTimeRef.current = Date.now() // Track when back navigation happened
 
+        const answers = getVisibleAnswers(fields, formData)
+
         setNavigationHistory((prev) => {
             const newHistory = [...prev]
             if (newHistory.length > 1) {
                 newHistory.pop() // Remove current field
+                // Pass over pages hidden since they were visited
+                while (newHistory.length > 1) {
+                    const field = findFieldById(
+                        fields,
+                        newHistory[newHistory.length - 1]
+                    )
+                    if (!field || isFieldVisible(field, answers)) break
+                    console.log("🙈 Skipping hidden field:", field.id)
+                    newHistory.pop()
+                }
                 const previousFieldId = newHistory[newHistory.length - 1]
                 console.log("✅ Moving to previous field:", previousFieldId)
 
@@ -1461,7 +1192,7 @@ const useFormLogic = (
                     const previousField = fields.find(
                         (f) => f.id === previousFieldId
                     )
-                    pushGTM("form_navigation", {
+                    trackEvent("form_navigation", {
                         formName: "quiz_form",
                         direction: "backward",
                         fromFieldId: currentFieldId,
@@ -1475,8 +1206,8 @@ const useFormLogic = (
                             previousField?.progressTitle ||
                             "",
                         currentStep: Math.max(0, currentStep - 1),
-                        totalSteps: fields.length,
-                        progressPercentage: (currentStep / fields.length) * 100,
+                        totalSteps,
+                        progressPercentage: (currentStep / totalSteps) * 100,
                     })
                 }
 
@@ -1486,7 +1217,47 @@ const useFormLogic = (
             console.log("ℹ️ Already at first field")
             return prev
         })
-    }, [currentFieldId, currentField, fields, currentStep])
+    }, [
+        currentFieldId,
+        currentField,
+        fields,
+        formData,
+        currentStep,
+        totalSteps,
+        trackEvent,
+    ])
+
+    // Jumps straight to a page, e.g. from the Inspector flow graph. The
+    // page is added to the history so Back returns to where the form was.
+    const goToField = useCallback(
+        (fieldId: string) => {
+            if (!findFieldById(fields, fieldId)) return
+            console.log("↪️ Jumping to field:", fieldId)
+            startTransition(() => {
+                setError(false)
+                setSubmitted(false)
+                setCurrentFieldId(fieldId)
+                setNavigationHistory((prev) => [...prev, fieldId])
+                navigationTypeRef.current = "forward"
+                backNavigationTimeRef.current = null
+            })
+        },
+        [fields]
+    )
+
+    // Follow the pageId prop only when it changes, so the form can move
+    // on before the parent hears about it through onPageChange
+    const { pageId, onPageChange } = navigation
+    const appliedPageIdRef = useRef<string | undefined>(undefined)
+    useEffect(() => {
+        if (pageId === appliedPageIdRef.current) return
+        appliedPageIdRef.current = pageId
+        if (pageId && pageId !== currentFieldId) goToField(pageId)
+    }, [pageId, currentFieldId, goToField])
+
+    useEffect(() => {
+        if (currentFieldId) onPageChange?.(currentFieldId)
+    }, [currentFieldId, onPageChange])
 
     // UPDATED HANDLE SUBMIT with Multi-Action Support and GTM
     const handleSubmit = useCallback(async () => {
@@ -1501,26 +1272,29 @@ const useFormLogic = (
         startTransition(() => {
             setIsSubmitting(true)
             setError(false)
+            setSubmissionError(null)
         })
 
+        // Answers on pages that are now hidden are not submitted
+        const submittedData = getVisibleAnswers(fields, formData)
+
         try {
             // Create GTM payload with questions and answers
             const gtmPayload = {
                 event: "form_submission",
                 formName: "quiz_form",
                 timestamp: new Date().toISOString(),
-                sessionId: `form_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+                sessionId: session.id,
                 navigationPath: navigationHistory,
-                completionTime:
-                    Date.now() - (window.formStartTime || Date.now()),
+                completionTime: Date.now() - session.startedAt,
                 questionsAndAnswers: fields.reduce(
                     (acc, field) => {
                         if (
                             field.includeInGtmEvent !== false &&
-                            formData[field.id] !== undefined &&
-                            formData[field.id] !== null
+                            submittedData[field.id] !== undefined &&
+                            submittedData[field.id] !== null
                         ) {
-                            const answer = formData[field.id]
+                            const answer = submittedData[field.id]
                             acc.push({
                                 questionId: field.id,
                                 questionText:
@@ -1543,15 +1317,15 @@ const useFormLogic = (
                     }>
                 ),
                 formData: Object.fromEntries(
-                    Object.entries(formData).filter(([key]) => {
+                    Object.entries(submittedData).filter(([key]) => {
                         const f = fields.find((ff) => ff.id === key)
                         return f?.includeInGtmEvent !== false
                     })
                 ),
-                totalQuestions: fields.length,
-                answeredQuestions: Object.keys(formData).length,
+                totalQuestions: totalSteps,
+                answeredQuestions: Object.keys(submittedData).length,
                 completionRate:
-                    (Object.keys(formData).length / fields.length) * 100,
+                    (Object.keys(submittedData).length / totalSteps) * 100,
             }
 
             // Send to GTM dataLayer
@@ -1571,54 +1345,54 @@ const useFormLogic = (
                     submissionActions
                 )
 
-                const submissionService = new MultiActionSubmissionService({
-                    actions: submissionActions,
-                    executeInParallel: executeInParallel || false,
-                    includeAnalytics: true,
-                })
-
-                const result = await submissionService.executeActions(
-                    formData,
-                    navigationHistory
+                const result = await createSubmissionService().executeActions(
+                    submittedData,
+                    navigationHistory,
+                    stepResultsRef.current
                 )
 
                 console.log("✅ Multi-action submission result:", result)
 
                 if (result.success) {
                     // Send success event to GTM
-                    if (typeof window !== "undefined" && window.dataLayer) {
-                        window.dataLayer.push({
-                            event: "form_submission_success",
-                            formName: "quiz_form",
-                            submissionResult: result.summary,
-                        })
-                    }
+                    trackEvent("form_submission_success", {
+                        formName: "quiz_form",
+                        submissionResult: result.summary,
+                    })
                     setSubmissionResult(result)
                     setSubmitted(true)
-                } else {
-                    throw new Error(
-                        `${result.summary.failed} actions failed. Details: ${JSON.stringify(result.results)}`
+                } else if (
+                    result.queued &&
+                    result.results.every(
+                        (r) => r.status !== "failed" || r.offline
                     )
+                ) {
+                    // Every failure was a network failure and is now queued
+                    trackEvent("form_submission_queued", {
+                        formName: "quiz_form",
+                        submissionResult: result.summary,
+                    })
+                    setSubmissionResult(result)
+                    setSubmitted(true)
+                } else {
+                    throw new SubmissionFailedError(result)
                 }
             } else {
                 // Fallback to original logging behavior if no actions configured
                 console.log(
                     "📝 No submission actions configured, logging form data:",
                     {
-                        formData: JSON.stringify(formData, null, 2),
+                        formData: JSON.stringify(submittedData, null, 2),
                         navigationPath: navigationHistory,
                         timestamp: new Date().toISOString(),
                     }
                 )
 
                 // Send success event to GTM for fallback submission
-                if (typeof window !== "undefined" && window.dataLayer) {
-                    window.dataLayer.push({
-                        event: "form_submission_success",
-                        formName: "quiz_form",
-                        submissionType: "fallback",
-                    })
-                }
+                trackEvent("form_submission_success", {
+                    formName: "quiz_form",
+                    submissionType: "fallback",
+                })
 
                 // Simulate submission delay
                 await new Promise((resolve) => setTimeout(resolve, 1000))
@@ -1628,17 +1402,23 @@ const useFormLogic = (
             console.error("❌ Submission error:", error)
 
             // Send error event to GTM
-            if (typeof window !== "undefined" && window.dataLayer) {
-                window.dataLayer.push({
-                    event: "form_submission_error",
-                    formName: "quiz_form",
-                    error:
-                        error instanceof Error
-                            ? error.message
-                            : "Unknown error",
-                })
-            }
+            trackEvent("form_submission_error", {
+                formName: "quiz_form",
+                error: error instanceof Error ? error.message : "Unknown error",
+            })
 
+            const result =
+                error instanceof SubmissionFailedError
+                    ? error.result
+                    : undefined
+            setSubmissionError({
+                message:
+                    error instanceof Error ? error.message : "Unknown error",
+                result,
+                failedActions:
+                    result?.results.filter((r) => r.status === "failed") ??
+                    [],
+            })
             setError(true)
         } finally {
             setIsSubmitting(false)
@@ -1648,14 +1428,20 @@ const useFormLogic = (
         formData,
         navigationHistory,
         submissionActions,
-        executeInParallel,
+        createSubmissionService,
         fields,
+        totalSteps,
+        session,
+        trackEvent,
     ])
 
     const isLastStep = useMemo(() => {
         if (!currentField) return true
-        const currentValue = formData[currentField.id]
-        const nextFieldId = getNextFieldId(currentField, currentValue, fields)
+        const nextFieldId = getNextFieldId(
+            currentField,
+            getVisibleAnswers(fields, formData),
+            fields
+        )
         const result = nextFieldId === null
         console.log("🏁 Is last step check:", {
             fieldId: currentField.id,
@@ -1741,6 +1527,7 @@ const useFormLogic = (
 
     return {
         currentStep,
+        totalSteps,
         currentFieldId,
         navigationHistory,
         formData,
@@ -1753,6 +1540,8 @@ const useFormLogic = (
         shouldAllowAutoAdvance,
         triggerAutoAdvance,
         submissionResult,
+        submissionError,
+        outboxStatus,
         handleInputChange,
         handleCheckboxToggle,
         handleNext,
@@ -2923,6 +2712,77 @@ const FormButton: React.FC<FormButtonProps> = ({
     )
 }
 
+// Lists flow problems over the form while designing, see flowAnalysis.ts
+const FlowIssuesOverlay: React.FC<FlowIssuesOverlayProps> = ({ issues }) => {
+    const [dismissed, setDismissed] = useState(false)
+    if (issues.length === 0 || dismissed) return null
+
+    const errors = issues.filter((issue) => issue.level === "error").length
+
+    return (
+        <div
+            role="status"
+            style={{
+                position: "absolute",
+                top: "0.75rem",
+                right: "0.75rem",
+                zIndex: 10,
+                maxWidth: "22rem",
+                maxHeight: "50%",
+                overflow: "auto",
+                padding: "0.75rem 1rem",
+                borderRadius: "8px",
+                backgroundColor: errors > 0 ? "#FDECEC" : "#FFF6E0",
+                color: "#333",
+                fontSize: "12px",
+                boxShadow: "0 2px 8px rgba(0,0,0,0.15)",
+            }}
+        >
+            <div
+                style={{
+                    display: "flex",
+                    justifyContent: "space-between",
+                    gap: "0.5rem",
+                    fontWeight: 600,
+                    marginBottom: "0.5rem",
+                }}
+            >
+                <span>
+                    ⚠️ {issues.length} flow{" "}
+                    {issues.length === 1 ? "issue" : "issues"}
+                </span>
+                <button
+                    onClick={() => setDismissed(true)}
+                    aria-label="Dismiss flow issues"
+                    style={{
+                        border: "none",
+                        background: "none",
+                        cursor: "pointer",
+                        fontSize: "14px",
+                        lineHeight: 1,
+                        color: "inherit",
+                    }}
+                >
+                    ×
+                </button>
+            </div>
+            <ul style={{ margin: 0, paddingLeft: "1rem" }}>
+                {issues.map((issue, i) => (
+                    <li
+                        key={i}
+                        style={{
+                            color: issue.level === "error" ? "#b00020" : "#9a6700",
+                            marginBottom: "0.25rem",
+                        }}
+                    >
+                        {issue.message}
+                    </li>
+                ))}
+            </ul>
+        </div>
+    )
+}
+
 // ===================================================================
 // MAIN COMPONENT
 // ===================================================================
@@ -2952,6 +2812,7 @@ export default function QuizForm(props: any) {
         borderRadius = 8,
         successMessage = "Thank you for your submission!",
         errorMessage = "An error occurred. Please try again.",
+        offlineMessage = "Your answers are saved and will be sent as soon as you're back online.",
         submitButtonText = "Submit",
         previousButtonText = "Previous",
         nextButtonText = "Next",
@@ -2959,8 +2820,20 @@ export default function QuizForm(props: any) {
         showProgressCount = true,
         submissionActions = [], // ✅ Add this line
         executeInParallel = false, // ✅ Add this line
+        invalidConditionBehavior = "skip",
+        successPolicy = "all",
+        onAllSuccess,
+        onAnyFailure,
+        relayEndpoint = "",
+        relaySigningSecret = "",
+        dryRun = false,
+        sessionId = "",
+        sessionParam = "session_id",
+        showFlowIssues = true,
         onSubmissionSuccess,
         onSubmissionError,
+        pageId,
+        onPageChange,
     } = props
 
     const isMobile = useIsMobile(768)
@@ -2975,6 +2848,42 @@ export default function QuizForm(props: any) {
     console.log("🎯 Framer Fields:", framerFields)
     console.log("🎯 Converted Fields:", fields)
     console.log("🎯 Fields Length:", fields.length)
+
+    // Flow problems are shown on the Framer canvas and in local development
+    const flowIssues = useMemo(() => {
+        const isDevelopment =
+            RenderTarget.current() === RenderTarget.canvas ||
+            import.meta.env?.DEV === true
+        if (!showFlowIssues || !isDevelopment) return []
+        const { issues } = analyzeFlow(fields)
+        if (issues.length > 0) console.warn("⚠️ Flow issues:", issues)
+        return issues
+    }, [fields, showFlowIssues])
+
+    // Memoized so the submission callbacks keep their identity between renders
+    const submissionOptions = useMemo(
+        () => ({
+            invalidConditionBehavior,
+            formTitle: title,
+            successPolicy,
+            onAllSuccess,
+            onAnyFailure,
+            relay: relayEndpoint
+                ? { endpoint: relayEndpoint, signingSecret: relaySigningSecret }
+                : undefined,
+            dryRun,
+        }),
+        [
+            invalidConditionBehavior,
+            title,
+            successPolicy,
+            onAllSuccess,
+            onAnyFailure,
+            relayEndpoint,
+            relaySigningSecret,
+            dryRun,
+        ]
+    )
     console.log("🎯 Submission Actions:", submissionActions) // ✅ Add this log
 
     // Safety check - if no fields, don't render the form
@@ -3037,6 +2946,7 @@ export default function QuizForm(props: any) {
     // ✅ UPDATED: Pass submission actions to the form logic hook
     const {
         currentStep,
+        totalSteps,
         currentFieldId,
         navigationHistory,
         formData,
@@ -3049,12 +2959,21 @@ export default function QuizForm(props: any) {
         shouldAllowAutoAdvance,
         triggerAutoAdvance,
         submissionResult, // ✅ Add this
+        submissionError,
+        outboxStatus,
         handleInputChange,
         handleCheckboxToggle,
         handleNext,
         handlePrevious,
         handleSubmit,
-    } = useFormLogic(fields, submissionActions, executeInParallel) // ✅ Pass the new parameters
+    } = useFormLogic(
+        fields,
+        submissionActions,
+        executeInParallel,
+        submissionOptions,
+        { id: sessionId, urlParam: sessionParam },
+        { pageId, onPageChange }
+    ) // ✅ Pass the new parameters
 
     // ✅ ADD: Handle submission callbacks
     useEffect(() => {
@@ -3063,15 +2982,29 @@ export default function QuizForm(props: any) {
                 "✅ Form submitted successfully, calling onSubmissionSuccess"
             )
             onSubmissionSuccess?.(submissionResult)
+
+            // onAllSuccess, never while editing in Framer or dry running
+            if (
+                submissionResult.redirectUrl &&
+                !submissionResult.dryRun &&
+                RenderTarget.current() !== RenderTarget.canvas
+            ) {
+                window.location.assign(submissionResult.redirectUrl)
+            }
         }
     }, [submitted, submissionResult, onSubmissionSuccess])
 
     useEffect(() => {
         if (error && !isSubmitting) {
             console.log("❌ Form submission error, calling onSubmissionError")
-            onSubmissionError?.("Form submission failed")
+            onSubmissionError?.(
+                submissionError ?? {
+                    message: "Form submission failed",
+                    failedActions: [],
+                }
+            )
         }
-    }, [error, isSubmitting, onSubmissionError])
+    }, [error, isSubmitting, submissionError, onSubmissionError])
 
     // If form is submitted, show success message
     if (submitted) {
@@ -3118,6 +3051,26 @@ export default function QuizForm(props: any) {
                     Thank you for completing the form.
                 </p>
 
+                {/* Queued submissions waiting for the network */}
+                {outboxStatus.pending > 0 && (
+                    <p
+                        style={{
+                            fontSize: isMobile ? "0.8rem" : "0.875rem",
+                            color: textColor,
+                            opacity: 0.8,
+                            textAlign: "center",
+                            marginTop: "1rem",
+                            padding: "0.75rem 1rem",
+                            borderRadius: "8px",
+                            backgroundColor: "#F2F2F2",
+                        }}
+                    >
+                        {outboxStatus.isFlushing
+                            ? "Sending your saved answers…"
+                            : offlineMessage}
+                    </p>
+                )}
+
                 {/* Debug info for successful submission */}
                 {submissionResult && (
                     <details
@@ -3178,7 +3131,9 @@ export default function QuizForm(props: any) {
                         textAlign: "center",
                     }}
                 >
-                    {errorMessage || "Something went wrong"}
+                    {submissionError?.result?.failureMessage ||
+                        errorMessage ||
+                        "Something went wrong"}
                 </h1>
                 <button
                     onClick={() => window.location.reload()}
@@ -3248,12 +3203,13 @@ export default function QuizForm(props: any) {
             </style>
 
             {/* Debug component removed for production */}
+            <FlowIssuesOverlay issues={flowIssues} />
 
             {/* Header with progress */}
             <div style={{ flexShrink: 0 }}>
                 <FormHeader
                     currentStep={currentStep}
-                    totalSteps={fields.length}
+                    totalSteps={totalSteps}
                     showBackButton={
                         currentField?.hideBackButton !== undefined
                             ? !currentField.hideBackButton
@@ -3275,7 +3231,7 @@ export default function QuizForm(props: any) {
                 {currentField?.type !== "progress process" && (
                     <ProgressBar
                         currentStep={currentStep}
-                        totalSteps={fields.length}
+                        totalSteps={totalSteps}
                         primaryColor={primaryColor}
                     />
                 )}
@@ -3358,7 +3314,7 @@ export default function QuizForm(props: any) {
                                 />
                             )}
 
-                            {/* Show error message if validation failed */}
+                            {/* Show error message if validation or submission failed */}
                             {error && (
                                 <p
                                     style={{
@@ -3370,7 +3326,10 @@ export default function QuizForm(props: any) {
                                         animation: "fadeIn 0.3s ease",
                                     }}
                                 >
-                                    This field is required
+                                    {submissionError
+                                        ? submissionError.result
+                                              ?.failureMessage || errorMessage
+                                        : "This field is required"}
                                 </p>
                             )}
                         </>
@@ -3436,469 +3395,747 @@ export default function QuizForm(props: any) {
 // FRAMER PROPERTY CONTROLS
 // ===================================================================
 
-addPropertyControls(QuizForm, {
-    title: {
-        type: ControlType.String,
-        title: "Form Title",
-        defaultValue: "Multi-Step Form",
-    },
-    subtitle: {
-        type: ControlType.String,
-        title: "Form Subtitle",
-        defaultValue: "Please fill out all required fields",
-    },
-    fields: {
-        type: ControlType.Array,
-        title: "Form Fields",
-        defaultValue: [
-            {
-                id: "q1",
-                question: "Have you taken antibiotics in the last 3 months?",
-                subtext: "PLEASE SELECT ONE",
-                type: "radio",
-                options: ["Yes", "No"],
-                required: true,
-            },
-        ],
-        control: {
-            type: ControlType.Object,
-            controls: {
-                id: {
-                    type: ControlType.String,
-                    title: "Field ID",
-                    defaultValue: "field-1",
-                },
-                question: {
-                    type: ControlType.String,
-                    title: "Question",
-                    defaultValue: "",
-                    hidden: (props: any) =>
-                        props.type === "progress process" ||
-                        props.type === "content" ||
-                        props.type === "email",
-                },
-                progressTitle: {
-                    type: ControlType.String,
-                    title: "Title",
-                    defaultValue: "",
-                    hidden: (props: any) => props.type !== "progress process",
-                },
-                subtext: {
-                    type: ControlType.String,
-                    title: "Subtext",
-                    defaultValue: "",
-                    hidden: (props: any) =>
-                        props.type === "progress process" ||
-                        props.type === "content" ||
-                        props.type === "email",
-                },
-                type: {
-                    type: ControlType.Enum,
-                    title: "Field Type",
-                    options: [
-                        "text",
-                        "email",
-                        "number",
-                        "select",
-                        "radio",
-                        "checkbox",
-                        "textarea",
-                        "progress process",
-                        "content",
-                    ],
-                    defaultValue: "text",
+// Rebuilt whenever a submission action type is registered, so custom
+// types get their Action Type option and controls
+function applyPropertyControls() {
+    addPropertyControls(QuizForm, {
+        title: {
+            type: ControlType.String,
+            title: "Form Title",
+            defaultValue: "Multi-Step Form",
+        },
+        subtitle: {
+            type: ControlType.String,
+            title: "Form Subtitle",
+            defaultValue: "Please fill out all required fields",
+        },
+        fields: {
+            type: ControlType.Array,
+            title: "Form Fields",
+            defaultValue: [
+                {
+                    id: "q1",
+                    question: "Have you taken antibiotics in the last 3 months?",
+                    subtext: "PLEASE SELECT ONE",
+                    type: "radio",
+                    options: ["Yes", "No"],
+                    required: true,
                 },
-                options: {
-                    type: ControlType.Array,
-                    title: "Options",
-                    control: {
+            ],
+            control: {
+                type: ControlType.Object,
+                controls: {
+                    id: {
                         type: ControlType.String,
+                        title: "Field ID",
+                        defaultValue: "field-1",
                     },
-                    hidden: (props: any) =>
-                        !["select", "radio", "checkbox"].includes(
-                            props.type as string
-                        ),
-                },
-                required: {
-                    type: ControlType.Boolean,
-                    title: "Required",
-                    defaultValue: false,
-                },
-                placeholder: {
-                    type: ControlType.String,
-                    title: "Placeholder",
-                    defaultValue: "",
-                    hidden: (props: any) =>
-                        !["text", "email", "number", "textarea"].includes(
-                            props.type as string
-                        ),
-                },
-                hideNextButton: {
-                    type: ControlType.Boolean,
-                    title: "Hide Next Button",
-                    defaultValue: false,
-                },
-                useConditionalLogic: {
-                    type: ControlType.Boolean,
-                    title: "Use Conditional Logic",
-                    defaultValue: false,
-                },
-                conditionalRules: {
-                    type: ControlType.String,
-                    title: "Conditional Rules",
-                    defaultValue: "",
-                    description: "Format: Answer1:FieldID1,Answer2:FieldID2",
-                    hidden: (props: any) => !props.useConditionalLogic,
-                },
-                defaultNext: {
-                    type: ControlType.String,
-                    title: "Default Next Field",
-                    defaultValue: "",
-                    description: "Field ID to go to if no condition matches",
-                    hidden: (props: any) => !props.useConditionalLogic,
-                },
-                emailTitle: {
-                    type: ControlType.String,
-                    title: "Email Title",
-                    defaultValue: "Email Submission",
-                    hidden: (props: any) => props.type !== "email",
-                },
-                emailSubtext: {
-                    type: ControlType.String,
-                    title: "Email Subtext",
-                    defaultValue: "Please enter your email address",
-                    displayTextArea: true,
-                    hidden: (props: any) => props.type !== "email",
-                },
-                emailSubmission: {
-                    type: ControlType.Boolean,
-                    title: "Email Submission",
-                    defaultValue: false,
-                    hidden: (props: any) => props.type !== "email",
-                },
-                emailSubmitButtonText: {
-                    type: ControlType.String,
-                    title: "Submit Button Text",
-                    defaultValue: "Submit",
-                    hidden: (props: any) => !props.emailSubmission,
-                },
-                useSlider: {
-                    type: ControlType.Boolean,
-                    title: "Use Slider",
-                    defaultValue: false,
-                    hidden: (props: any) => props.type !== "number",
-                },
-                sliderMin: {
-                    type: ControlType.Number,
-                    title: "Slider Min",
-                    defaultValue: 0,
-                    hidden: (props: any) =>
-                        props.type !== "number" || !props.useSlider,
-                },
-                sliderMax: {
-                    type: ControlType.Number,
-                    title: "Slider Max",
-                    defaultValue: 120,
-                    hidden: (props: any) =>
-                        props.type !== "number" || !props.useSlider,
-                },
-                sliderValue: {
-                    type: ControlType.Number,
-                    title: "Default Value",
-                    defaultValue: 60,
-                    hidden: (props: any) =>
-                        props.type !== "number" || !props.useSlider,
-                },
-                contentComponentKey: {
-                    type: ControlType.Enum,
-                    title: "Content Component",
-                    options: Object.keys(CustomContentComponents),
-                    defaultValue: "WeGotYou",
-                    hidden: (props: any) => props.type !== "content",
-                },
-                autoAdvanceDelay: {
-                    type: ControlType.Number,
-                    title: "Auto Advance Delay (ms)",
-                    defaultValue: 2000,
-                    min: 500,
-                    max: 10000,
-                    step: 100,
-                    hidden: (props: any) => props.type !== "progress process",
-                },
-                progressSteps: {
-                    type: ControlType.Array,
-                    title: "Progress Steps",
-                    control: {
-                        type: ControlType.Object,
-                        controls: {
-                            id: {
-                                type: ControlType.String,
-                                title: "Step ID",
-                                defaultValue: "step1",
+                    question: {
+                        type: ControlType.String,
+                        title: "Question",
+                        defaultValue: "",
+                        hidden: (props: any) =>
+                            props.type === "progress process" ||
+                            props.type === "content" ||
+                            props.type === "email",
+                    },
+                    progressTitle: {
+                        type: ControlType.String,
+                        title: "Title",
+                        defaultValue: "",
+                        hidden: (props: any) => props.type !== "progress process",
+                    },
+                    subtext: {
+                        type: ControlType.String,
+                        title: "Subtext",
+                        defaultValue: "",
+                        hidden: (props: any) =>
+                            props.type === "progress process" ||
+                            props.type === "content" ||
+                            props.type === "email",
+                    },
+                    type: {
+                        type: ControlType.Enum,
+                        title: "Field Type",
+                        options: [
+                            "text",
+                            "email",
+                            "number",
+                            "select",
+                            "radio",
+                            "checkbox",
+                            "textarea",
+                            "progress process",
+                            "content",
+                        ],
+                        defaultValue: "text",
+                    },
+                    options: {
+                        type: ControlType.Array,
+                        title: "Options",
+                        control: {
+                            type: ControlType.String,
+                        },
+                        hidden: (props: any) =>
+                            !["select", "radio", "checkbox"].includes(
+                                props.type as string
+                            ),
+                    },
+                    required: {
+                        type: ControlType.Boolean,
+                        title: "Required",
+                        defaultValue: false,
+                    },
+                    placeholder: {
+                        type: ControlType.String,
+                        title: "Placeholder",
+                        defaultValue: "",
+                        hidden: (props: any) =>
+                            !["text", "email", "number", "textarea"].includes(
+                                props.type as string
+                            ),
+                    },
+                    hideNextButton: {
+                        type: ControlType.Boolean,
+                        title: "Hide Next Button",
+                        defaultValue: false,
+                    },
+                    visibleWhen: {
+                        type: ControlType.String,
+                        title: "Visible When",
+                        defaultValue: "",
+                        placeholder: 'q2 == "Yes"',
+                        description:
+                            "Show this page only when the condition holds. Hidden pages are skipped both ways and their answers are not submitted.",
+                    },
+                    useConditionalLogic: {
+                        type: ControlType.Boolean,
+                        title: "Use Conditional Logic",
+                        defaultValue: false,
+                    },
+                    branchRules: {
+                        type: ControlType.Array,
+                        title: "Branch Rules",
+                        hidden: (props: any) => !props.useConditionalLogic,
+                        description:
+                            "Checked in order before Conditional Rules, the first match wins",
+                        control: {
+                            type: ControlType.Object,
+                            controls: {
+                                field: {
+                                    type: ControlType.String,
+                                    title: "Answer Of",
+                                    defaultValue: "",
+                                    placeholder: "This question",
+                                },
+                                operator: {
+                                    type: ControlType.Enum,
+                                    title: "Operator",
+                                    options: [...BRANCH_OPERATORS],
+                                    optionTitles: [
+                                        "Equals",
+                                        "Not Equals",
+                                        "Greater Than",
+                                        "Less Than",
+                                        "Between",
+                                        "Contains Any",
+                                        "Contains All",
+                                        "Is Empty",
+                                        "Matches Regex",
+                                    ],
+                                    defaultValue: "equals",
+                                },
+                                value: {
+                                    type: ControlType.String,
+                                    title: "Value",
+                                    defaultValue: "",
+                                    hidden: (props: any) =>
+                                        props.operator === "isEmpty",
+                                    description:
+                                        "Lists are comma separated, quote values with commas: A, \"B, C\". Between takes min, max.",
+                                },
+                                next: {
+                                    type: ControlType.String,
+                                    title: "Go To",
+                                    defaultValue: "",
+                                },
                             },
-                            label: {
-                                type: ControlType.String,
-                                title: "Step Label",
-                                defaultValue: "Processing...",
+                        },
+                    },
+                    conditionalRules: {
+                        type: ControlType.String,
+                        title: "Conditional Rules",
+                        defaultValue: "",
+                        displayTextArea: true,
+                        description:
+                            'Answer: FieldID, one rule per line or comma. Quote answers with , or : ("Yes, daily": q5). Also != No, < 18, 18..65, any(A, B), all(A, B), empty, /regex/, @q1 = Yes.',
+                        hidden: (props: any) => !props.useConditionalLogic,
+                    },
+                    defaultNext: {
+                        type: ControlType.String,
+                        title: "Default Next Field",
+                        defaultValue: "",
+                        description: "Field ID to go to if no condition matches",
+                        hidden: (props: any) => !props.useConditionalLogic,
+                    },
+                    emailTitle: {
+                        type: ControlType.String,
+                        title: "Email Title",
+                        defaultValue: "Email Submission",
+                        hidden: (props: any) => props.type !== "email",
+                    },
+                    emailSubtext: {
+                        type: ControlType.String,
+                        title: "Email Subtext",
+                        defaultValue: "Please enter your email address",
+                        displayTextArea: true,
+                        hidden: (props: any) => props.type !== "email",
+                    },
+                    emailSubmission: {
+                        type: ControlType.Boolean,
+                        title: "Email Submission",
+                        defaultValue: false,
+                        hidden: (props: any) => props.type !== "email",
+                    },
+                    emailSubmitButtonText: {
+                        type: ControlType.String,
+                        title: "Submit Button Text",
+                        defaultValue: "Submit",
+                        hidden: (props: any) => !props.emailSubmission,
+                    },
+                    useSlider: {
+                        type: ControlType.Boolean,
+                        title: "Use Slider",
+                        defaultValue: false,
+                        hidden: (props: any) => props.type !== "number",
+                    },
+                    sliderMin: {
+                        type: ControlType.Number,
+                        title: "Slider Min",
+                        defaultValue: 0,
+                        hidden: (props: any) =>
+                            props.type !== "number" || !props.useSlider,
+                    },
+                    sliderMax: {
+                        type: ControlType.Number,
+                        title: "Slider Max",
+                        defaultValue: 120,
+                        hidden: (props: any) =>
+                            props.type !== "number" || !props.useSlider,
+                    },
+                    sliderValue: {
+                        type: ControlType.Number,
+                        title: "Default Value",
+                        defaultValue: 60,
+                        hidden: (props: any) =>
+                            props.type !== "number" || !props.useSlider,
+                    },
+                    contentComponentKey: {
+                        type: ControlType.Enum,
+                        title: "Content Component",
+                        options: Object.keys(CustomContentComponents),
+                        defaultValue: "WeGotYou",
+                        hidden: (props: any) => props.type !== "content",
+                    },
+                    autoAdvanceDelay: {
+                        type: ControlType.Number,
+                        title: "Auto Advance Delay (ms)",
+                        defaultValue: 2000,
+                        min: 500,
+                        max: 10000,
+                        step: 100,
+                        hidden: (props: any) => props.type !== "progress process",
+                    },
+                    progressSteps: {
+                        type: ControlType.Array,
+                        title: "Progress Steps",
+                        control: {
+                            type: ControlType.Object,
+                            controls: {
+                                id: {
+                                    type: ControlType.String,
+                                    title: "Step ID",
+                                    defaultValue: "step1",
+                                },
+                                label: {
+                                    type: ControlType.String,
+                                    title: "Step Label",
+                                    defaultValue: "Processing...",
+                                },
                             },
                         },
+                        defaultValue: [
+                            { id: "step1", label: "Evaluating your answers…" },
+                            { id: "step2", label: "Analyzing your results…" },
+                            { id: "step3", label: "Assessing your flora balance…" },
+                            { id: "step4", label: "Building your summary…" },
+                        ],
+                        hidden: (props: any) => props.type !== "progress process",
+                    },
+                    progressBarBgColor: {
+                        type: ControlType.Color,
+                        title: "Progress Bar Background",
+                        defaultValue: "#E8B2CB",
+                        hidden: (props: any) => props.type !== "progress process",
+                    },
+                    progressBarValueColor: {
+                        type: ControlType.Color,
+                        title: "Progress Bar Color",
+                        defaultValue: "#632240",
+                        hidden: (props: any) => props.type !== "progress process",
+                    },
+                    hideBackButton: {
+                        type: ControlType.Boolean,
+                        title: "Hide Back Button",
+                        defaultValue: false,
+                    },
+                    hideProgressCount: {
+                        type: ControlType.Boolean,
+                        title: "Hide Progress Counter",
+                        defaultValue: false,
+                    },
+                    includeInGtmEvent: {
+                        type: ControlType.Boolean,
+                        title: "Include in GTM Event",
+                        defaultValue: true,
                     },
-                    defaultValue: [
-                        { id: "step1", label: "Evaluating your answers…" },
-                        { id: "step2", label: "Analyzing your results…" },
-                        { id: "step3", label: "Assessing your flora balance…" },
-                        { id: "step4", label: "Building your summary…" },
-                    ],
-                    hidden: (props: any) => props.type !== "progress process",
-                },
-                progressBarBgColor: {
-                    type: ControlType.Color,
-                    title: "Progress Bar Background",
-                    defaultValue: "#E8B2CB",
-                    hidden: (props: any) => props.type !== "progress process",
-                },
-                progressBarValueColor: {
-                    type: ControlType.Color,
-                    title: "Progress Bar Color",
-                    defaultValue: "#632240",
-                    hidden: (props: any) => props.type !== "progress process",
-                },
-                hideBackButton: {
-                    type: ControlType.Boolean,
-                    title: "Hide Back Button",
-                    defaultValue: false,
-                },
-                hideProgressCount: {
-                    type: ControlType.Boolean,
-                    title: "Hide Progress Counter",
-                    defaultValue: false,
-                },
-                includeInGtmEvent: {
-                    type: ControlType.Boolean,
-                    title: "Include in GTM Event",
-                    defaultValue: true,
                 },
             },
         },
-    },
-    primaryColor: {
-        type: ControlType.Color,
-        title: "Primary Color",
-        defaultValue: "#A67C8E",
-    },
-    secondaryColor: {
-        type: ControlType.Color,
-        title: "Secondary Color",
-        defaultValue: "#632240",
-    },
-    backgroundColor: {
-        type: ControlType.Color,
-        title: "Background Color",
-        defaultValue: "#FEFEFE",
-    },
-    textColor: {
-        type: ControlType.Color,
-        title: "Text Color",
-        defaultValue: "#333333",
-    },
-    buttonTextColor: {
-        type: ControlType.Color,
-        title: "Button Text Color",
-        defaultValue: "#FFFFFF",
-    },
-    disabledColor: {
-        type: ControlType.Color,
-        title: "Disabled Color",
-        defaultValue: "#CCCCCC",
-    },
-    borderRadius: {
-        type: ControlType.Number,
-        title: "Border Radius",
-        defaultValue: 8,
-        min: 0,
-        max: 50,
-        unit: "px",
-    },
-    successMessage: {
-        type: ControlType.String,
-        title: "Success Message",
-        defaultValue: "Thank you for your submission!",
-    },
-    errorMessage: {
-        type: ControlType.String,
-        title: "Error Message",
-        defaultValue: "An error occurred. Please try again.",
-    },
-    submitButtonText: {
-        type: ControlType.String,
-        title: "Submit Button Text",
-        defaultValue: "Submit",
-    },
-    previousButtonText: {
-        type: ControlType.String,
-        title: "Previous Button Text",
-        defaultValue: "Previous",
-    },
-    nextButtonText: {
-        type: ControlType.String,
-        title: "Next Button Text",
-        defaultValue: "Next",
-    },
-    showBackButton: {
-        type: ControlType.Boolean,
-        title: "Show Back Button",
-        defaultValue: true,
-    },
-    showProgressCount: {
-        type: ControlType.Boolean,
-        title: "Show Progress Count",
-        defaultValue: true,
-    },
-    submissionActions: {
-        type: ControlType.Array,
-        title: "Submission Actions",
-        defaultValue: [],
-        control: {
-            type: ControlType.Object,
-            controls: {
-                id: {
-                    type: ControlType.String,
-                    title: "Action ID",
-                    defaultValue: "action-1",
-                },
-                name: {
-                    type: ControlType.String,
-                    title: "Action Name",
-                    defaultValue: "Webhook Action",
-                },
-                type: {
-                    type: ControlType.Enum,
-                    title: "Action Type",
-                    options: [
-                        "webhook",
-                        "email",
-                        "airtable",
-                        "google_sheets",
-                        "slack",
-                        "custom",
-                    ],
-                    defaultValue: "webhook",
-                },
-                enabled: {
-                    type: ControlType.Boolean,
-                    title: "Enabled",
-                    defaultValue: true,
-                },
-                order: {
-                    type: ControlType.Number,
-                    title: "Execution Order",
-                    defaultValue: 1,
-                    min: 1,
-                    max: 10,
-                },
-                endpoint: {
-                    type: ControlType.String,
-                    title: "Endpoint URL",
-                    defaultValue: "",
-                    hidden: (props: any) =>
-                        props.type === "custom" && !props.endpoint,
-                },
-                apiKey: {
-                    type: ControlType.String,
-                    title: "API Key",
-                    defaultValue: "",
-                    hidden: (props: any) =>
-                        !["webhook", "airtable", "google_sheets"].includes(
-                            props.type
-                        ),
-                },
-                method: {
-                    type: ControlType.Enum,
-                    title: "HTTP Method",
-                    options: ["POST", "PUT", "PATCH"],
-                    defaultValue: "POST",
-                    hidden: (props: any) => props.type !== "webhook",
-                },
-                headers: {
-                    type: ControlType.String,
-                    title: "Headers (JSON)",
-                    defaultValue: "",
-                    displayTextArea: true,
-                    hidden: (props: any) => props.type !== "webhook",
-                },
-                emailTo: {
-                    type: ControlType.String,
-                    title: "Email To",
-                    defaultValue: "",
-                    hidden: (props: any) => props.type !== "email",
-                },
-                emailSubject: {
-                    type: ControlType.String,
-                    title: "Email Subject",
-                    defaultValue: "Form Submission",
-                    hidden: (props: any) => props.type !== "email",
-                },
-                channel: {
-                    type: ControlType.String,
-                    title: "Slack Channel",
-                    defaultValue: "#general",
-                    hidden: (props: any) => props.type !== "slack",
-                },
-                username: {
-                    type: ControlType.String,
-                    title: "Bot Username",
-                    defaultValue: "Form Bot",
-                    hidden: (props: any) => props.type !== "slack",
-                },
-                condition: {
-                    type: ControlType.String,
-                    title: "Condition (JS)",
-                    defaultValue: "",
-                    description:
-                        "e.g., formData.email.includes('@company.com')",
-                },
-                onSuccess: {
-                    type: ControlType.Enum,
-                    title: "On Success",
-                    options: ["continue", "stop"],
-                    defaultValue: "continue",
-                },
-                onError: {
-                    type: ControlType.Enum,
-                    title: "On Error",
-                    options: ["continue", "stop", "retry"],
-                    defaultValue: "continue",
-                },
-                retryAttempts: {
-                    type: ControlType.Number,
-                    title: "Retry Attempts",
-                    defaultValue: 1,
-                    min: 1,
-                    max: 5,
-                    hidden: (props: any) => props.onError !== "retry",
-                },
-                dataMapping: {
-                    type: ControlType.String,
-                    title: "Data Mapping (JSON)",
-                    defaultValue: "",
-                    displayTextArea: true,
-                    description: "Map form fields to output fields",
-                },
-                includeMetadata: {
-                    type: ControlType.Boolean,
-                    title: "Include Metadata",
-                    defaultValue: false,
+        primaryColor: {
+            type: ControlType.Color,
+            title: "Primary Color",
+            defaultValue: "#A67C8E",
+        },
+        secondaryColor: {
+            type: ControlType.Color,
+            title: "Secondary Color",
+            defaultValue: "#632240",
+        },
+        backgroundColor: {
+            type: ControlType.Color,
+            title: "Background Color",
+            defaultValue: "#FEFEFE",
+        },
+        textColor: {
+            type: ControlType.Color,
+            title: "Text Color",
+            defaultValue: "#333333",
+        },
+        buttonTextColor: {
+            type: ControlType.Color,
+            title: "Button Text Color",
+            defaultValue: "#FFFFFF",
+        },
+        disabledColor: {
+            type: ControlType.Color,
+            title: "Disabled Color",
+            defaultValue: "#CCCCCC",
+        },
+        borderRadius: {
+            type: ControlType.Number,
+            title: "Border Radius",
+            defaultValue: 8,
+            min: 0,
+            max: 50,
+            unit: "px",
+        },
+        successMessage: {
+            type: ControlType.String,
+            title: "Success Message",
+            defaultValue: "Thank you for your submission!",
+        },
+        errorMessage: {
+            type: ControlType.String,
+            title: "Error Message",
+            defaultValue: "An error occurred. Please try again.",
+        },
+        offlineMessage: {
+            type: ControlType.String,
+            title: "Offline Message",
+            defaultValue:
+                "Your answers are saved and will be sent as soon as you're back online.",
+            description: "Shown after submitting while the network is down",
+        },
+        submitButtonText: {
+            type: ControlType.String,
+            title: "Submit Button Text",
+            defaultValue: "Submit",
+        },
+        previousButtonText: {
+            type: ControlType.String,
+            title: "Previous Button Text",
+            defaultValue: "Previous",
+        },
+        nextButtonText: {
+            type: ControlType.String,
+            title: "Next Button Text",
+            defaultValue: "Next",
+        },
+        showBackButton: {
+            type: ControlType.Boolean,
+            title: "Show Back Button",
+            defaultValue: true,
+        },
+        showProgressCount: {
+            type: ControlType.Boolean,
+            title: "Show Progress Count",
+            defaultValue: true,
+        },
+        submissionActions: {
+            type: ControlType.Array,
+            title: "Submission Actions",
+            defaultValue: [],
+            control: {
+                type: ControlType.Object,
+                controls: {
+                    id: {
+                        type: ControlType.String,
+                        title: "Action ID",
+                        defaultValue: "action-1",
+                    },
+                    name: {
+                        type: ControlType.String,
+                        title: "Action Name",
+                        defaultValue: "Webhook Action",
+                    },
+                    type: {
+                        type: ControlType.Enum,
+                        title: "Action Type",
+                        options: getSubmissionActionTypeNames(),
+                        defaultValue: "webhook",
+                    },
+                    enabled: {
+                        type: ControlType.Boolean,
+                        title: "Enabled",
+                        defaultValue: true,
+                    },
+                    order: {
+                        type: ControlType.Number,
+                        title: "Execution Order",
+                        defaultValue: 1,
+                        min: 1,
+                        max: 10,
+                    },
+                    trigger: {
+                        type: ControlType.Enum,
+                        title: "Trigger",
+                        options: ["onSubmit", "onStep"],
+                        optionTitles: ["On Submit", "After Step"],
+                        defaultValue: "onSubmit",
+                        description:
+                            "After Step sends the answers so far once the visitor moves on from the Trigger Field, with the same sessionId as the final submission.",
+                    },
+                    triggerFieldId: {
+                        type: ControlType.String,
+                        title: "Trigger Field ID",
+                        defaultValue: "",
+                        hidden: (props: any) => props.trigger !== "onStep",
+                    },
+                    dependsOn: {
+                        type: ControlType.Array,
+                        title: "Depends On",
+                        defaultValue: [],
+                        control: {
+                            type: ControlType.String,
+                        },
+                        description:
+                            "Action IDs that must succeed first. Their results are available as results.<actionId> in Data Mapping.",
+                    },
+                    endpoint: {
+                        type: ControlType.String,
+                        title: "Endpoint URL",
+                        defaultValue: "",
+                        hidden: (props: any) =>
+                            props.type === "custom" && !props.endpoint,
+                    },
+                    apiKey: {
+                        type: ControlType.String,
+                        title: "API Key",
+                        defaultValue: "",
+                        hidden: (props: any) =>
+                            ![
+                                "webhook",
+                                "email",
+                                "airtable",
+                                "google_sheets",
+                                "crm_contact",
+                            ].includes(props.type),
+                    },
+                    method: {
+                        type: ControlType.Enum,
+                        title: "HTTP Method",
+                        options: ["POST", "PUT", "PATCH", "GET"],
+                        defaultValue: "POST",
+                        hidden: (props: any) =>
+                            props.type !== "webhook" &&
+                            !(
+                                props.type === "crm_contact" &&
+                                props.crmProvider === "generic"
+                            ),
+                    },
+                    bodyEncoding: {
+                        type: ControlType.Enum,
+                        title: "Body Encoding",
+                        options: ["json", "urlencoded", "multipart"],
+                        optionTitles: ["JSON", "Form URL-Encoded", "Multipart Form"],
+                        defaultValue: "json",
+                        hidden: (props: any) =>
+                            props.type !== "webhook" || props.method === "GET",
+                        description:
+                            "Form encodings repeat the key for each selected option. GET always sends a query string.",
+                    },
+                    successCondition: {
+                        type: ControlType.String,
+                        title: "Success Condition",
+                        defaultValue: "",
+                        hidden: (props: any) =>
+                            props.type !== "webhook" &&
+                            !(props.type === "custom" && props.endpoint),
+                        description:
+                            'Checked against the response, e.g. result.status == "ok". Failing it fails the action.',
+                    },
+                    responseMapping: {
+                        type: ControlType.String,
+                        title: "Response Mapping (JSON)",
+                        defaultValue: "",
+                        displayTextArea: true,
+                        hidden: (props: any) =>
+                            props.type !== "webhook" &&
+                            !(props.type === "custom" && props.endpoint),
+                        description:
+                            'Values to keep from the response as results.<actionId>, e.g. { "recordId": "result.data.id" }',
+                    },
+                    headers: {
+                        type: ControlType.String,
+                        title: "Headers (JSON)",
+                        defaultValue: "",
+                        displayTextArea: true,
+                        hidden: (props: any) => props.type !== "webhook",
+                    },
+                    signingSecret: {
+                        type: ControlType.String,
+                        title: "Signing Secret",
+                        defaultValue: "",
+                        description:
+                            "Signs the body with HMAC-SHA256. The secret is visible in the published page.",
+                        hidden: (props: any) =>
+                            props.type !== "webhook" && props.type !== "custom",
+                    },
+                    signatureHeader: {
+                        type: ControlType.String,
+                        title: "Signature Header",
+                        defaultValue: "X-Form-Signature",
+                        hidden: (props: any) =>
+                            (props.type !== "webhook" && props.type !== "custom") ||
+                            !props.signingSecret,
+                    },
+                    timestampHeader: {
+                        type: ControlType.String,
+                        title: "Timestamp Header",
+                        defaultValue: "X-Form-Timestamp",
+                        description: 'Signed as "<timestamp>.<body>".',
+                        hidden: (props: any) =>
+                            (props.type !== "webhook" && props.type !== "custom") ||
+                            !props.signingSecret,
+                    },
+                    idempotencyKey: {
+                        type: ControlType.Boolean,
+                        title: "Idempotency Key",
+                        defaultValue: true,
+                        description:
+                            "Sends Idempotency-Key: <sessionId>:<actionId>, the same on every retry. On Step actions add a hash of the answers, so a changed answer is sent again.",
+                        hidden: (props: any) =>
+                            props.type !== "webhook" && props.type !== "custom",
+                    },
+                    ...getSubmissionActionTypeControls(),
+                    condition: {
+                        type: ControlType.String,
+                        title: "Condition",
+                        defaultValue: "",
+                        description:
+                            'e.g., q2 >= 18 and email includes "@company.com"',
+                    },
+                    onSuccess: {
+                        type: ControlType.Enum,
+                        title: "On Success",
+                        options: ["continue", "stop"],
+                        defaultValue: "continue",
+                        description:
+                            "Stop cancels the actions ordered after this one, or only the actions that depend on it once any action uses Depends On.",
+                    },
+                    onError: {
+                        type: ControlType.Enum,
+                        title: "On Error",
+                        options: ["continue", "stop", "retry"],
+                        defaultValue: "continue",
+                    },
+                    critical: {
+                        type: ControlType.Boolean,
+                        title: "Critical",
+                        defaultValue: false,
+                        description:
+                            "With the Critical Actions policy, the submission succeeds when every critical action does.",
+                    },
+                    retryAttempts: {
+                        type: ControlType.Number,
+                        title: "Retry Attempts",
+                        defaultValue: 1,
+                        min: 1,
+                        max: 5,
+                        hidden: (props: any) => props.onError !== "retry",
+                    },
+                    retryBaseDelay: {
+                        type: ControlType.Number,
+                        title: "Retry Base Delay",
+                        defaultValue: 1000,
+                        min: 100,
+                        max: 10000,
+                        step: 100,
+                        unit: "ms",
+                        hidden: (props: any) => props.onError !== "retry",
+                    },
+                    retryMaxDelay: {
+                        type: ControlType.Number,
+                        title: "Retry Max Delay",
+                        defaultValue: 30000,
+                        min: 1000,
+                        max: 120000,
+                        step: 1000,
+                        unit: "ms",
+                        hidden: (props: any) => props.onError !== "retry",
+                    },
+                    retryJitter: {
+                        type: ControlType.Number,
+                        title: "Retry Jitter",
+                        defaultValue: 0,
+                        min: 0,
+                        max: 1,
+                        step: 0.1,
+                        hidden: (props: any) => props.onError !== "retry",
+                    },
+                    timeout: {
+                        type: ControlType.Number,
+                        title: "Timeout",
+                        defaultValue: 0,
+                        min: 0,
+                        max: 60000,
+                        step: 500,
+                        unit: "ms",
+                        description: "Per attempt, 0 waits indefinitely",
+                    },
+                    dataMapping: {
+                        type: ControlType.String,
+                        title: "Data Mapping (JSON)",
+                        defaultValue: "",
+                        displayTextArea: true,
+                        description:
+                            'e.g. { "email": "q3", "name": "{{q1}} {{q2}}", "age": { "path": "q4", "type": "number", "default": 0 } }',
+                    },
+                    dataMappingMode: {
+                        type: ControlType.Enum,
+                        title: "Mapping Mode",
+                        options: ["mapped", "merge"],
+                        optionTitles: ["Only Mapped Fields", "Merge Into Payload"],
+                        defaultValue: "mapped",
+                        hidden: (props: any) => !props.dataMapping,
+                    },
+                    includeMetadata: {
+                        type: ControlType.Boolean,
+                        title: "Include Metadata",
+                        defaultValue: false,
+                    },
                 },
             },
         },
-    },
-    executeInParallel: {
-        type: ControlType.Boolean,
-        title: "Execute Actions in Parallel",
-        defaultValue: false,
-        description: "Run all submission actions simultaneously",
-    },
-})
+        invalidConditionBehavior: {
+            type: ControlType.Enum,
+            title: "Invalid Conditions",
+            options: ["skip", "run"],
+            optionTitles: ["Skip Action", "Run Action"],
+            defaultValue: "skip",
+            description: "What to do when an action condition cannot be parsed",
+        },
+        successPolicy: {
+            type: ControlType.Enum,
+            title: "Success Policy",
+            options: ["all", "critical", "any"],
+            optionTitles: ["All Actions", "Critical Actions", "Any Action"],
+            defaultValue: "all",
+            description:
+                "Which actions must succeed for the success screen. Other failures still run On Any Failure.",
+        },
+        onAllSuccess: {
+            type: ControlType.String,
+            title: "Success Redirect",
+            defaultValue: "",
+            description:
+                "URL to open once every action succeeded, e.g. https://example.com/thanks?plan={{q2}}",
+        },
+        onAnyFailure: {
+            type: ControlType.String,
+            title: "On Any Failure",
+            defaultValue: "",
+            displayTextArea: true,
+            description:
+                "ID of a fallback action to run when an action fails, or a message to show instead of the Error Message.",
+        },
+        relayEndpoint: {
+            type: ControlType.String,
+            title: "Relay URL",
+            defaultValue: "",
+            description:
+                "Send submissions to a relay that holds the API keys and runs the actions server-side. Leave API keys empty above when using one.",
+        },
+        relaySigningSecret: {
+            type: ControlType.String,
+            title: "Relay Secret",
+            defaultValue: "",
+            hidden: (props: any) => !props.relayEndpoint,
+            description:
+                "Optional. Visible to every visitor, so it only keeps out clients that never loaded the form. It is not authentication.",
+        },
+        dryRun: {
+            type: ControlType.Boolean,
+            title: "Dry Run",
+            defaultValue: false,
+            description:
+                "Run the actions without sending anything. The requests they would send are listed in Submission Details.",
+        },
+        showFlowIssues: {
+            type: ControlType.Boolean,
+            title: "Flow Warnings",
+            defaultValue: true,
+            description:
+                "On the canvas, list missing pages, unreachable pages and loops that never reach submission.",
+        },
+        sessionId: {
+            type: ControlType.String,
+            title: "Session ID",
+            defaultValue: "",
+            description:
+                "Use this ID for GTM events and submissions instead of generating one per visit.",
+        },
+        sessionParam: {
+            type: ControlType.String,
+            title: "Session URL Parameter",
+            defaultValue: "session_id",
+            hidden: (props: any) => !!props.sessionId,
+            description:
+                "Query parameter to take the session ID from, e.g. ?session_id=abc123",
+        },
+        executeInParallel: {
+            type: ControlType.Boolean,
+            title: "Execute Actions in Parallel",
+            defaultValue: false,
+            description:
+                "Run all submission actions simultaneously. Retries, timeouts and stop rules still apply. Ignored once any action uses Depends On.",
+        },
+    })
+}
+
+applyPropertyControls()
+onSubmissionActionTypesChange(applyPropertyControls)
 
 // Add a BoldText component for bold styling (if needed elsewhere)
 const BoldText: React.FC<{ children: React.ReactNode }> = ({ children }) => (
@@ -0,0 +1,255 @@
+import { describe, expect, it } from "vitest"
+import {
+    BranchRuleSyntaxError,
+    describeBranchRule,
+    formatBranchRules,
+    isEmptyAnswer,
+    matchesBranchRule,
+    normalizeBranchRules,
+    parseBranchRules,
+    readBranchRules,
+    type BranchRule,
+} from "./branchRules"
+
+const rule = (
+    operator: BranchRule["operator"],
+    value?: BranchRule["value"]
+): BranchRule => ({ operator, value, next: "next" })
+
+describe("matchesBranchRule", () => {
+    it.each<[BranchRule, unknown, boolean]>([
+        [rule("equals", "Yes"), "Yes", true],
+        [rule("equals", "Yes"), "yes", false],
+        [rule("equals", 18), "18", true],
+        [rule("equals", "A,B"), ["A", "B"], true],
+        [rule("equals", ["B", "A"]), ["A", "B"], true],
+        [rule("equals", ["A"]), ["A", "B"], false],
+        [rule("notEquals", "No"), "Yes", true],
+        [rule("notEquals", "No"), "No", false],
+        [rule("gt", 65), 70, true],
+        [rule("gt", 65), "65", false],
+        [rule("gt", 65), "", false],
+        [rule("lt", 18), "17", true],
+        [rule("lt", 18), "abc", false],
+        [rule("between", [18, 65]), 18, true],
+        [rule("between", [18, 65]), 65, true],
+        [rule("between", [18, 65]), 66, false],
+        [rule("containsAny", ["Pain", "Gas"]), ["Bloating", "Pain"], true],
+        [rule("containsAny", ["Pain", "Gas"]), ["Bloating"], false],
+        [rule("containsAny", "@company.com"), "ana@company.com", true],
+        [rule("containsAll", ["Pain", "Gas"]), ["Gas", "Pain", "X"], true],
+        [rule("containsAll", ["Pain", "Gas"]), ["Pain"], false],
+        [rule("containsAll", []), ["Pain"], false],
+        [rule("isEmpty"), "", true],
+        [rule("isEmpty"), "  ", true],
+        [rule("isEmpty"), [], true],
+        [rule("isEmpty"), undefined, true],
+        [rule("isEmpty"), 0, false],
+        [rule("regex", "^\\d{5}$"), "12345", true],
+        [rule("regex", "^\\d{5}$"), "1234", false],
+        [rule("regex", "^B"), ["A", "Bloating"], true],
+    ])("%j against %j is %s", (branchRule, answer, expected) => {
+        expect(matchesBranchRule(branchRule, answer)).toBe(expected)
+    })
+
+    it("throws for rules that cannot be evaluated", () => {
+        expect(() => matchesBranchRule(rule("between", [18]), 20)).toThrow(
+            "between needs a [min, max] value"
+        )
+        expect(() => matchesBranchRule(rule("regex", "("), "x")).toThrow()
+    })
+})
+
+describe("isEmptyAnswer", () => {
+    it.each([
+        [undefined, true],
+        [null, true],
+        ["", true],
+        [" ", true],
+        [[], true],
+        ["No", false],
+        [0, false],
+        [false, false],
+        [["A"], false],
+    ])("%j is %s", (answer, expected) => {
+        expect(isEmptyAnswer(answer)).toBe(expected)
+    })
+})
+
+describe("describeBranchRule", () => {
+    it.each<[BranchRule, string]>([
+        [rule("lt", 18), "q2 < 18"],
+        [rule("equals", "Yes"), 'q2 = "Yes"'],
+        [rule("between", [18, 65]), "q2 between 18 and 65"],
+        [rule("containsAny", ["A", "B"]), 'q2 contains any of "A", "B"'],
+        [rule("isEmpty"), "q2 is empty"],
+        [{ ...rule("equals", "Yes"), field: "q1" }, 'q1 = "Yes"'],
+    ])("%j reads %s", (branchRule, label) => {
+        expect(describeBranchRule(branchRule, "q2")).toBe(label)
+    })
+})
+
+describe("parseBranchRules", () => {
+    it.each<[string, BranchRule[]]>([
+        [
+            "Yes: q4, No: q3",
+            [
+                { operator: "equals", value: "Yes", next: "q4" },
+                { operator: "equals", value: "No", next: "q3" },
+            ],
+        ],
+        [
+            '"Yes, daily": q4',
+            [{ operator: "equals", value: "Yes, daily", next: "q4" }],
+        ],
+        ['"18": q2', [{ operator: "equals", value: "18", next: "q2" }]],
+        ["!= No: q5", [{ operator: "notEquals", value: "No", next: "q5" }]],
+        [
+            "> 65: senior, < 18: guardian",
+            [
+                { operator: "gt", value: 65, next: "senior" },
+                { operator: "lt", value: 18, next: "guardian" },
+            ],
+        ],
+        [
+            "18..65: adult",
+            [{ operator: "between", value: [18, 65], next: "adult" }],
+        ],
+        [
+            "[Bloating, Pain]: q6",
+            [{ operator: "equals", value: ["Bloating", "Pain"], next: "q6" }],
+        ],
+        [
+            'any(Bloating, "Gut pain"): gut',
+            [
+                {
+                    operator: "containsAny",
+                    value: ["Bloating", "Gut pain"],
+                    next: "gut",
+                },
+            ],
+        ],
+        [
+            "all(A, B): both",
+            [{ operator: "containsAll", value: ["A", "B"], next: "both" }],
+        ],
+        ["empty: q9", [{ operator: "isEmpty", next: "q9" }]],
+        [
+            "/^\\d{5}$/: zip",
+            [{ operator: "regex", value: "^\\d{5}$", next: "zip" }],
+        ],
+        [
+            "@q1 = Yes: q4",
+            [{ field: "q1", operator: "equals", value: "Yes", next: "q4" }],
+        ],
+        [
+            "A,B:q5,No:q3",
+            [
+                { operator: "equals", value: "A,B", next: "q5" },
+                { operator: "equals", value: "No", next: "q3" },
+            ],
+        ],
+        ["", []],
+    ])("%s", (source, rules) => {
+        expect(parseBranchRules(source)).toEqual(rules)
+    })
+
+    it.each([
+        ["Yes q4", 'Rule 1 "Yes q4": Missing : and the field ID to go to'],
+        [
+            "Yes q4, No: q3",
+            'Rule 1 "Yes q4": Missing : and the field ID to go to',
+        ],
+        ["A,B q5", 'Rule 1 "A": Missing : and the field ID to go to'],
+        ['"Yes: q4', 'Rule 1 ""Yes: q4": Unterminated quote'],
+    ])("%s fails with %s", (source, message) => {
+        expect(() => parseBranchRules(source)).toThrow(BranchRuleSyntaxError)
+        expect(() => parseBranchRules(source)).toThrow(message)
+    })
+
+    it("numbers the rule that failed", () => {
+        expect(() => parseBranchRules("Yes: q4, No q3")).toThrow(/^Rule 2 /)
+    })
+})
+
+describe("formatBranchRules", () => {
+    it.each([
+        "Yes: q4, No: q3",
+        '"Yes, daily": q4',
+        '"18": q2',
+        "!= No: q5",
+        "> 65: senior, < 18: guardian",
+        "18..65: adult",
+        "[Bloating, Pain]: q6",
+        'any(Bloating, "Gut pain"): gut',
+        "all(A, B): both",
+        "empty: q9",
+        "/^\\d{5}$/: zip",
+        "@q1 = Yes: q4",
+        '"say \\"hi\\"": q2',
+        '"empty": q2',
+        '"@home": q2',
+        '"any(x)": q2',
+        '"1..2": q2',
+    ])("%s survives a round trip", (source) => {
+        const rules = parseBranchRules(source)
+        expect(parseBranchRules(formatBranchRules(rules))).toEqual(rules)
+    })
+
+    it("rewrites legacy checkbox keys in the quoted syntax", () => {
+        const rules = parseBranchRules("A,B:q5, C,D,E:q6")
+        expect(formatBranchRules(rules)).toBe('"A,B": q5, "C,D,E": q6')
+        expect(parseBranchRules(formatBranchRules(rules))).toEqual(rules)
+    })
+
+    it("writes the shortest form for plain answers", () => {
+        expect(
+            formatBranchRules([
+                { operator: "equals", value: "Yes", next: "q4" },
+                { operator: "gt", value: 65, next: "senior" },
+            ])
+        ).toBe("Yes: q4, > 65: senior")
+    })
+})
+
+describe("normalizeBranchRules", () => {
+    it("converts text values from the Branch Rules control", () => {
+        expect(
+            normalizeBranchRules([
+                { operator: "gt", value: "65", next: " senior " },
+                { operator: "between", value: "18, 65", next: "adult" },
+                { operator: "containsAny", value: 'A, "B, C"', next: "q6" },
+            ])
+        ).toEqual([
+            { operator: "gt", value: 65, next: "senior" },
+            { operator: "between", value: [18, 65], next: "adult" },
+            { operator: "containsAny", value: ["A", "B, C"], next: "q6" },
+        ])
+    })
+
+    it.each([
+        [{ operator: "like", value: "x", next: "q2" }, "Unknown operator"],
+        [{ operator: "equals", value: "x", next: "" }, "Missing the field ID"],
+        [{ operator: "gt", value: "old", next: "q2" }, "gt needs a number"],
+        [{ operator: "between", value: "18", next: "q2" }, "two numbers"],
+        [{ operator: "regex", value: "(", next: "q2" }, "Rule 1"],
+    ])("%j fails with %s", (input, message) => {
+        expect(() => normalizeBranchRules([input])).toThrow(message)
+    })
+})
+
+describe("readBranchRules", () => {
+    it("reads both controls and leaves out a set that does not parse", () => {
+        expect(
+            readBranchRules({
+                branchRules: [{ operator: "equals", value: "Yes", next: "q4" }],
+                conditionalRules: "No q3",
+            })
+        ).toEqual({
+            rules: [{ operator: "equals", value: "Yes", next: "q4" }],
+            errors: [
+                'Conditional Rules: Rule 1 "No q3": Missing : and the field ID to go to',
+            ],
+        })
+    })
+})
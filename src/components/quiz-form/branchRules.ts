@@ -0,0 +1,689 @@
+// ===================================================================
+// BRANCH RULES
+// ===================================================================
+//
+// Ordered rules that pick the page after a question. Each rule tests one
+// answer, the current page's unless `field` names an earlier question,
+// and the first rule that matches wins:
+//
+//   [
+//     { "operator": "lt", "value": 18, "next": "guardian" },
+//     { "operator": "containsAny", "value": ["Bloating", "Pain"], "next": "gut" },
+//     { "field": "q1", "operator": "equals", "value": "Yes", "next": "q4" }
+//   ]
+//
+// When no rule matches the form goes to the page's defaultNext, then to
+// the next page in order.
+
+export const BRANCH_OPERATORS = [
+    "equals",
+    "notEquals",
+    "gt",
+    "lt",
+    "between",
+    "containsAny",
+    "containsAll",
+    "isEmpty",
+    "regex",
+] as const
+
+export type BranchOperator = (typeof BRANCH_OPERATORS)[number]
+
+export type BranchValue = string | number | Array<string | number>
+
+export interface BranchRule {
+    field?: string // Question whose answer is tested, the current page by default
+    operator: BranchOperator
+    value?: BranchValue // [min, max] for between, unused by isEmpty
+    next: string // Field ID to go to when the rule matches
+}
+
+export function isEmptyAnswer(answer: unknown): boolean {
+    return (
+        answer === undefined ||
+        answer === null ||
+        (typeof answer === "string" && answer.trim() === "") ||
+        (Array.isArray(answer) && answer.length === 0)
+    )
+}
+
+function toNumber(value: unknown): number {
+    if (typeof value === "number") return value
+    if (typeof value === "string" && value.trim() !== "") return Number(value)
+    return NaN
+}
+
+function toList(value: BranchValue | undefined): string[] {
+    if (value === undefined) return []
+    return (Array.isArray(value) ? value : [value]).map(String)
+}
+
+function isEqual(answer: unknown, expected: BranchValue | undefined): boolean {
+    if (Array.isArray(answer)) {
+        // A single value compares with the selections joined by commas,
+        // the way answer keys were matched before rules
+        if (!Array.isArray(expected)) {
+            return answer.join(",") === String(expected)
+        }
+        const selected = answer.map(String)
+        const wanted = toList(expected)
+        return (
+            selected.length === wanted.length &&
+            wanted.every((item) => selected.includes(item))
+        )
+    }
+
+    const a = toNumber(answer)
+    const b = toNumber(expected)
+    if (Number.isFinite(a) && Number.isFinite(b)) return a === b
+
+    return String(answer ?? "") === String(expected ?? "")
+}
+
+function contains(answer: unknown, item: string): boolean {
+    if (Array.isArray(answer)) return answer.map(String).includes(item)
+    if (isEmptyAnswer(answer)) return false
+    return String(answer).includes(item)
+}
+
+// Throws for rules that cannot be evaluated, like an invalid regex or a
+// between rule without two bounds
+export function matchesBranchRule(rule: BranchRule, answer: unknown): boolean {
+    switch (rule.operator) {
+        case "equals":
+            return isEqual(answer, rule.value)
+        case "notEquals":
+            return !isEqual(answer, rule.value)
+        case "gt":
+        case "lt": {
+            const a = toNumber(answer)
+            const b = toNumber(rule.value)
+            if (!Number.isFinite(a) || !Number.isFinite(b)) return false
+            return rule.operator === "gt" ? a > b : a < b
+        }
+        case "between": {
+            const bounds = Array.isArray(rule.value)
+                ? rule.value.map(toNumber)
+                : []
+            if (bounds.length !== 2 || !bounds.every(Number.isFinite)) {
+                throw new Error("between needs a [min, max] value")
+            }
+            const a = toNumber(answer)
+            return Number.isFinite(a) && a >= bounds[0] && a <= bounds[1]
+        }
+        case "containsAny":
+            return toList(rule.value).some((item) => contains(answer, item))
+        case "containsAll": {
+            const items = toList(rule.value)
+            return (
+                items.length > 0 &&
+                items.every((item) => contains(answer, item))
+            )
+        }
+        case "isEmpty":
+            return isEmptyAnswer(answer)
+        case "regex": {
+            const pattern = new RegExp(String(rule.value ?? ""))
+            const values = Array.isArray(answer)
+                ? answer.map(String)
+                : [String(answer ?? "")]
+            return values.some((value) => pattern.test(value))
+        }
+        default:
+            throw new Error(`Unknown branch operator: ${rule.operator}`)
+    }
+}
+
+// Short label for logs and flow diagrams, e.g. `q2 < 18`
+export function describeBranchRule(rule: BranchRule, fieldId = ""): string {
+    const subject = rule.field || fieldId
+    const list = toList(rule.value)
+        .map((item) => JSON.stringify(item))
+        .join(", ")
+    const value = Array.isArray(rule.value)
+        ? `[${list}]`
+        : typeof rule.value === "number"
+          ? String(rule.value)
+          : list || '""'
+
+    const condition = (() => {
+        switch (rule.operator) {
+            case "equals":
+                return `= ${value}`
+            case "notEquals":
+                return `!= ${value}`
+            case "gt":
+                return `> ${value}`
+            case "lt":
+                return `< ${value}`
+            case "between":
+                return `between ${toList(rule.value).join(" and ")}`
+            case "containsAny":
+                return `contains any of ${list}`
+            case "containsAll":
+                return `contains all of ${list}`
+            case "isEmpty":
+                return "is empty"
+            case "regex":
+                return `matches /${rule.value ?? ""}/`
+            default:
+                return rule.operator
+        }
+    })()
+
+    return subject ? `${subject} ${condition}` : condition
+}
+
+// ===================================================================
+// RULE SYNTAX
+// ===================================================================
+//
+// The Conditional Rules text in Framer lists rules as `condition: target`,
+// separated by commas or new lines:
+//
+//   Yes: q4, No: q3                  answer equals the text
+//   "Yes, daily": q4                 quote text with , : or quotes, \" escapes
+//   != No: q5                        answer is anything else
+//   > 65: senior, < 18: guardian     numbers
+//   18..65: adult                    between, bounds included
+//   [Bloating, Pain]: q6             exactly these checkbox selections
+//   any(Bloating, "Gut pain"): gut   at least one of the selections
+//   all(Bloating, Pain): both        every one of the selections
+//   empty: q9                        no answer
+//   /^\d{5}$/: zip                   regex, \/ for a slash
+//   @q1 = Yes: q4                    test an earlier question's answer
+//
+// Quote answers that would read as syntax, like "empty", "18" or "< 5".
+// Rules written before this syntax keyed checkbox answers by the
+// selections joined with bare commas, so `A,B:q5` still reads as
+// `"A,B": q5`.
+
+export interface BranchRuleInput {
+    field?: string
+    operator?: string
+    value?: BranchValue // Framer sends text, "A, B" for lists and "18, 65" for between
+    next?: string
+}
+
+export class BranchRuleSyntaxError extends Error {
+    rule: string // The rule as written
+    index: number // Position in the list, from 0
+
+    constructor(message: string, rule: string, index: number) {
+        super(`Rule ${index + 1} "${rule}": ${message}`)
+        this.name = "BranchRuleSyntaxError"
+        this.rule = rule
+        this.index = index
+    }
+}
+
+const NUMBER_PATTERN = /^-?\d+(\.\d+)?$/
+const RANGE_PATTERN = /^(-?\d+(?:\.\d+)?)\s*\.\.\s*(-?\d+(?:\.\d+)?)$/
+const PLAIN_ID_PATTERN = /^[\w.-]+$/
+
+interface RuleText {
+    text: string
+    quoted: boolean
+}
+
+function toValue({ text, quoted }: RuleText): string | number {
+    return !quoted && NUMBER_PATTERN.test(text) ? Number(text) : text
+}
+
+class RuleReader {
+    private source: string
+    position = 0
+
+    constructor(source: string) {
+        this.source = source
+    }
+
+    private peek(offset = 0): string {
+        return this.source[this.position + offset] ?? ""
+    }
+
+    atEnd(): boolean {
+        return this.position >= this.source.length
+    }
+
+    private atRuleEnd(): boolean {
+        return this.atEnd() || this.peek() === "," || this.peek() === "\n"
+    }
+
+    private skipSpaces(): void {
+        while (/[ \t\r]/.test(this.peek())) this.position++
+    }
+
+    skipSeparators(): void {
+        while (/[\s,]/.test(this.peek())) this.position++
+    }
+
+    private consume(text: string): boolean {
+        if (!this.source.startsWith(text, this.position)) return false
+        this.position += text.length
+        return true
+    }
+
+    // The raw text of the rule starting at `start`, for error messages
+    ruleText(start: number): string {
+        let quote = ""
+        let depth = 0
+        let index = start
+        for (; index < this.source.length; index++) {
+            const char = this.source[index]
+            if (quote) {
+                if (char === "\\") index++
+                else if (char === quote) quote = ""
+            } else if (char === '"' || char === "'") {
+                quote = char
+            } else if (char === "(" || char === "[") {
+                depth++
+            } else if (char === ")" || char === "]") {
+                depth = Math.max(0, depth - 1)
+            } else if (char === "\n" || (char === "," && depth === 0)) {
+                break
+            }
+        }
+        return this.source.slice(start, index).trim()
+    }
+
+    // Quoted text with backslash escapes, or plain text up to a stop character
+    private readText(stops: string): RuleText {
+        this.skipSpaces()
+        const quote = this.peek()
+        if (quote === '"' || quote === "'") {
+            this.position++
+            let text = ""
+            while (this.peek() !== quote) {
+                if (this.peek() === "\\") this.position++
+                if (this.atEnd()) throw new Error("Unterminated quote")
+                text += this.peek()
+                this.position++
+            }
+            this.position++
+            return { text, quoted: true }
+        }
+
+        const start = this.position
+        while (!this.atEnd() && !stops.includes(this.peek())) this.position++
+        return {
+            text: this.source.slice(start, this.position).trim(),
+            quoted: false,
+        }
+    }
+
+    // Legacy checkbox keys: the rest of `A,B:q5` after `A`. Only commas
+    // with no space around them continue the key, and only when a : ends
+    // it, so the missing : in `Yes q4, No: q3` is still reported.
+    private readLegacyKey(first: RuleText): RuleText {
+        const start = this.position
+        let key = first.text
+        while (
+            this.peek() === "," &&
+            /\S/.test(this.peek(-1)) &&
+            /[^\s,"']/.test(this.peek(1))
+        ) {
+            this.position++
+            key += `,${this.readText(":,\n").text}`
+        }
+        if (key === first.text || this.peek() !== ":") {
+            this.position = start
+            return first
+        }
+        return { text: key, quoted: true }
+    }
+
+    private readValue(operator: string): string | number {
+        const text = this.readText(":,\n")
+        if (!text.quoted && text.text === "") {
+            throw new Error(`Expected a value after ${operator}`)
+        }
+        return toValue(text)
+    }
+
+    private readNumber(operator: string): number {
+        const text = this.readText(":,\n")
+        if (text.quoted || !NUMBER_PATTERN.test(text.text)) {
+            throw new Error(`Expected a number after ${operator}`)
+        }
+        return Number(text.text)
+    }
+
+    // Comma separated values up to `close`, or to the end when it is empty
+    readList(close: string): Array<string | number> {
+        const items: Array<string | number> = []
+        for (;;) {
+            const item = this.readText(`,\n${close}`)
+            if (!item.quoted && item.text === "") {
+                throw new Error("Empty value in list")
+            }
+            items.push(toValue(item))
+            this.skipSpaces()
+            if (this.consume(",")) continue
+            if (close ? this.consume(close) : this.atEnd()) return items
+            throw new Error(
+                this.atEnd() ? `Missing ${close}` : `Expected , or ${close}`
+            )
+        }
+    }
+
+    private readRegex(): string {
+        this.position++
+        let pattern = ""
+        while (this.peek() !== "/") {
+            if (this.atEnd()) throw new Error("Unterminated regex")
+            if (this.peek() === "\\" && this.peek(1) === "/") {
+                pattern += "/"
+                this.position += 2
+            } else if (this.peek() === "\\") {
+                pattern += this.source.slice(this.position, this.position + 2)
+                this.position += 2
+            } else {
+                pattern += this.peek()
+                this.position++
+            }
+        }
+        this.position++
+        if (pattern === "") throw new Error("Empty regex")
+        checkRegex(pattern)
+        return pattern
+    }
+
+    private readKeyword(keyword: string): boolean {
+        const rest = this.source.slice(this.position + keyword.length)
+        if (!this.source.startsWith(keyword, this.position)) return false
+        if (!/^[ \t]*:/.test(rest)) return false
+        this.position += keyword.length
+        return true
+    }
+
+    readRule(): BranchRule {
+        this.skipSpaces()
+        let field: string | undefined
+        if (this.consume("@")) {
+            field = this.readText(" \t:,\n=<>!/[").text
+            if (!field) throw new Error("Expected a field ID after @")
+        }
+
+        this.skipSpaces()
+        let operator: BranchOperator
+        let value: BranchValue | undefined
+        if (this.consume("!=")) {
+            operator = "notEquals"
+            this.skipSpaces()
+            value =
+                this.peek() === "["
+                    ? this.readSelection()
+                    : this.readValue("!=")
+        } else if (this.consume(">")) {
+            operator = "gt"
+            value = this.readNumber(">")
+        } else if (this.consume("<")) {
+            operator = "lt"
+            value = this.readNumber("<")
+        } else if (this.consume("=")) {
+            operator = "equals"
+            this.skipSpaces()
+            value =
+                this.peek() === "[" ? this.readSelection() : this.readValue("=")
+        } else if (this.peek() === "[") {
+            operator = "equals"
+            value = this.readSelection()
+        } else if (this.peek() === "/") {
+            operator = "regex"
+            value = this.readRegex()
+        } else if (this.consume("any(")) {
+            operator = "containsAny"
+            value = this.readList(")")
+        } else if (this.consume("all(")) {
+            operator = "containsAll"
+            value = this.readList(")")
+        } else if (this.readKeyword("empty")) {
+            operator = "isEmpty"
+        } else {
+            let text = this.readText(":,\n")
+            if (!text.quoted) text = this.readLegacyKey(text)
+            const range = text.quoted ? null : RANGE_PATTERN.exec(text.text)
+            if (range) {
+                operator = "between"
+                value = [Number(range[1]), Number(range[2])]
+            } else {
+                operator = "equals"
+                value = toValue(text)
+            }
+        }
+
+        this.skipSpaces()
+        if (!this.consume(":")) {
+            throw new Error(
+                this.atRuleEnd()
+                    ? "Missing : and the field ID to go to"
+                    : `Expected : but found "${this.peek()}"`
+            )
+        }
+        const next = this.readText(" \t,\n").text
+        if (!next) throw new Error("Missing the field ID to go to after :")
+        this.skipSpaces()
+        if (!this.atRuleEnd()) {
+            throw new Error(`Unexpected "${this.peek()}" after ${next}`)
+        }
+
+        return {
+            ...(field && { field }),
+            operator,
+            ...(value !== undefined && { value }),
+            next,
+        }
+    }
+
+    private readSelection(): Array<string | number> {
+        this.skipSpaces()
+        this.consume("[")
+        return this.readList("]")
+    }
+}
+
+function checkRegex(pattern: string): void {
+    try {
+        new RegExp(pattern)
+    } catch (error) {
+        throw new Error(
+            `Invalid regex: ${error instanceof Error ? error.message : String(error)}`
+        )
+    }
+}
+
+// Parses Conditional Rules text, throwing BranchRuleSyntaxError with the
+// rule that does not parse
+export function parseBranchRules(source: string): BranchRule[] {
+    const reader = new RuleReader(source)
+    const rules: BranchRule[] = []
+
+    for (;;) {
+        reader.skipSeparators()
+        if (reader.atEnd()) return rules
+        const start = reader.position
+        try {
+            rules.push(reader.readRule())
+        } catch (error) {
+            throw new BranchRuleSyntaxError(
+                error instanceof Error ? error.message : String(error),
+                reader.ruleText(start),
+                rules.length
+            )
+        }
+    }
+}
+
+function parseValueList(
+    value: BranchValue | undefined
+): Array<string | number> {
+    if (Array.isArray(value)) return value
+    if (typeof value === "number") return [value]
+    if (!value || value.trim() === "") return []
+    return new RuleReader(value).readList("")
+}
+
+// Checks rules from the Branch Rules control or JSON config and converts
+// their text values, throwing BranchRuleSyntaxError like parseBranchRules
+export function normalizeBranchRules(rules: BranchRuleInput[]): BranchRule[] {
+    return rules.map((input, index) => {
+        const field = input.field?.trim()
+        const next = input.next?.trim() || ""
+        const operator = input.operator as BranchOperator
+        const label = `${field ? `@${field} ` : ""}${input.operator ?? ""} ${
+            Array.isArray(input.value)
+                ? input.value.join(", ")
+                : (input.value ?? "")
+        }`.trim()
+        const fail = (message: string) =>
+            new BranchRuleSyntaxError(message, `${label}: ${next}`, index)
+
+        if (!BRANCH_OPERATORS.includes(operator)) {
+            throw fail(`Unknown operator "${input.operator ?? ""}"`)
+        }
+        if (!next) throw fail("Missing the field ID to go to")
+
+        let value: BranchValue | undefined
+        try {
+            switch (operator) {
+                case "gt":
+                case "lt":
+                    value = toNumber(input.value)
+                    if (!Number.isFinite(value)) {
+                        throw new Error(`${operator} needs a number`)
+                    }
+                    break
+                case "between": {
+                    const bounds = parseValueList(input.value).map(toNumber)
+                    if (bounds.length !== 2 || !bounds.every(Number.isFinite)) {
+                        throw new Error(
+                            "between needs two numbers, e.g. 18, 65"
+                        )
+                    }
+                    value = bounds
+                    break
+                }
+                case "containsAny":
+                case "containsAll":
+                    value = parseValueList(input.value)
+                    if (value.length === 0) {
+                        throw new Error(`${operator} needs at least one value`)
+                    }
+                    break
+                case "regex":
+                    value = String(input.value ?? "")
+                    if (!value) throw new Error("regex needs a pattern")
+                    checkRegex(value)
+                    break
+                case "isEmpty":
+                    break
+                default:
+                    value = input.value ?? ""
+            }
+        } catch (error) {
+            throw fail(error instanceof Error ? error.message : String(error))
+        }
+
+        return {
+            ...(field && { field }),
+            operator,
+            ...(value !== undefined && { value }),
+            next,
+        }
+    })
+}
+
+export interface BranchRuleSource {
+    conditionalRules?: string
+    branchRules?: BranchRuleInput[]
+}
+
+// Reads a page's Branch Rules and Conditional Rules, in that order. A set
+// that does not parse is left out whole and its error names the rule.
+export function readBranchRules(source: BranchRuleSource): {
+    rules: BranchRule[]
+    errors: string[]
+} {
+    const rules: BranchRule[] = []
+    const errors: string[] = []
+    const sets: Array<[string, () => BranchRule[]]> = [
+        ["Branch Rules", () => normalizeBranchRules(source.branchRules || [])],
+        [
+            "Conditional Rules",
+            () => parseBranchRules(source.conditionalRules || ""),
+        ],
+    ]
+
+    sets.forEach(([label, parse]) => {
+        try {
+            rules.push(...parse())
+        } catch (error) {
+            if (!(error instanceof BranchRuleSyntaxError)) throw error
+            errors.push(`${label}: ${error.message}`)
+        }
+    })
+
+    return { rules, errors }
+}
+
+function formatText(value: string | number, id = false): string {
+    if (typeof value === "number") return String(value)
+    const plain = id
+        ? PLAIN_ID_PATTERN.test(value)
+        : value !== "" &&
+          value === value.trim() &&
+          !/[,:\n"'\\()[\]]/.test(value) &&
+          !/^[@!=<>/]/.test(value) &&
+          !NUMBER_PATTERN.test(value) &&
+          !RANGE_PATTERN.test(value) &&
+          !/^(any|all)\(/.test(value) &&
+          value !== "empty"
+    return plain ? value : `"${value.replace(/["\\]/g, "\\$&")}"`
+}
+
+function formatList(value: BranchValue | undefined): string {
+    return parseValueList(value)
+        .map((item) => formatText(item))
+        .join(", ")
+}
+
+// Writes rules in the Conditional Rules syntax, the inverse of parseBranchRules
+export function formatBranchRules(rules: BranchRule[]): string {
+    return rules
+        .map((rule) => {
+            const value = rule.value ?? ""
+            const single = Array.isArray(value)
+                ? `[${formatList(value)}]`
+                : formatText(value)
+            const condition = (() => {
+                switch (rule.operator) {
+                    case "equals":
+                        return rule.field || Array.isArray(value)
+                            ? `= ${single}`
+                            : single
+                    case "notEquals":
+                        return `!= ${single}`
+                    case "gt":
+                        return `> ${value}`
+                    case "lt":
+                        return `< ${value}`
+                    case "between":
+                        return parseValueList(value).join("..")
+                    case "containsAny":
+                        return `any(${formatList(value)})`
+                    case "containsAll":
+                        return `all(${formatList(value)})`
+                    case "isEmpty":
+                        return "empty"
+                    case "regex":
+                        return `/${String(value).replace(/\\.|\//g, (match) =>
+                            match === "/" ? "\\/" : match
+                        )}/`
+                }
+            })()
+            const field = rule.field ? `@${formatText(rule.field, true)} ` : ""
+            return `${field}${condition}: ${formatText(rule.next, true)}`
+        })
+        .join(", ")
+}
@@ -0,0 +1,133 @@
+import { describe, expect, it } from "vitest"
+import {
+    ConditionSyntaxError,
+    evaluateConditionExpression,
+    parseCondition,
+    validateCondition,
+} from "./conditionExpression"
+
+const answers = {
+    q1: "Yes",
+    q2: 21,
+    q3: ["Email", "Phone"],
+    q4: "",
+    email: "ana@company.com",
+    "field-1": "x",
+}
+
+describe("evaluateConditionExpression", () => {
+    it.each([
+        ['q1 == "Yes"', true],
+        ['q1 = "Yes"', true],
+        ['q1 === "Yes"', true],
+        ['q1 != "Yes"', false],
+        ["q2 >= 18", true],
+        ["q2 < 18", false],
+        ["q2 + 4 == 25", true],
+        ["q2 % 2 == 1", true],
+        ['q3 includes "Email"', true],
+        ['q3 contains "Fax"', false],
+        ['q1 in ["Yes", "Maybe"]', true],
+        ['q1 not in ["Yes", "Maybe"]', false],
+        ["q3.length > 1", true],
+        ['formData.email.includes("@company.com")', true],
+        ['formData.email.endsWith(".org")', false],
+        ['formData["field-1"] == "x"', true],
+        ["q4", false],
+        ["missing == null", true],
+        ['q2 >= 18 && q1 == "Yes"', true],
+        ['q2 < 18 || q1 == "Yes"', true],
+    ])("%s is %s", (source, expected) => {
+        expect(evaluateConditionExpression(source, answers)).toBe(expected)
+    })
+})
+
+describe("precedence", () => {
+    it.each([
+        ["a or b and c", "a or (b and c)"],
+        ["a and b or c", "(a and b) or c"],
+        ['not q1 == "No"', 'not (q1 == "No")'],
+        ["!q4 == true", "(!q4) == true"],
+        ["!q1 == false", "(!q1) == false"],
+        ["!q1 and q2 > 18", "(!q1) and (q2 > 18)"],
+        ["1 + 2 * 3 == 7", "(1 + (2 * 3)) == 7"],
+        ["-q2 < 0", "(-q2) < 0"],
+        ['not q1 in ["No"]', 'not (q1 in ["No"])'],
+    ])("%s parses as %s", (source, grouped) => {
+        expect(parseCondition(source)).toEqual(parseCondition(grouped))
+    })
+
+    it("negates the operand of ! before comparing, like JavaScript", () => {
+        // !"Yes" is false, and false == false
+        expect(evaluateConditionExpression("!q1 == false", answers)).toBe(true)
+        expect(evaluateConditionExpression('not q1 == "No"', answers)).toBe(
+            true
+        )
+    })
+})
+
+describe("syntax errors", () => {
+    it.each([
+        ["q1 ==", "Condition ended unexpectedly"],
+        ['q1 == "Yes', "Unterminated string"],
+        ["q1 # 2", 'Unexpected character "#"'],
+        ["(q1 == 2", 'Expected ")" but the condition ended'],
+        ["q1.toUpperCase()", 'Unsupported method "toUpperCase"'],
+        ["q1 == 1 2", 'Unexpected "2"'],
+        ["and", 'Unexpected keyword "and"'],
+    ])("%s fails with %s", (source, message) => {
+        expect(() => parseCondition(source)).toThrow(ConditionSyntaxError)
+        expect(() => parseCondition(source)).toThrow(message)
+    })
+
+    it("rejects deep nesting with a syntax error instead of overflowing", () => {
+        const deep = `${"(".repeat(5000)}q1${")".repeat(5000)}`
+        expect(() => parseCondition(deep)).toThrow(ConditionSyntaxError)
+        expect(() => parseCondition(deep)).toThrow("nested more than")
+        expect(() => parseCondition(`${"!".repeat(5000)}q1`)).toThrow(
+            ConditionSyntaxError
+        )
+        expect(() => parseCondition(`${"not ".repeat(5000)}q1`)).toThrow(
+            ConditionSyntaxError
+        )
+    })
+
+    it("accepts ordinary nesting", () => {
+        const nested = `${"(".repeat(20)}q2 > 1${")".repeat(20)}`
+        expect(evaluateConditionExpression(nested, answers)).toBe(true)
+    })
+})
+
+describe("validateCondition", () => {
+    it("lists references and flags unknown fields", () => {
+        expect(
+            validateCondition('q1 == "Yes" and formData.q9 > 2', ["q1", "q2"])
+        ).toEqual({
+            valid: true,
+            references: ["q1", "q9"],
+            unknownReferences: ["q9"],
+        })
+    })
+
+    it("reports the position of a syntax error", () => {
+        const result = validateCondition("q1 == ", ["q1"])
+        expect(result.valid).toBe(false)
+        expect(result.position).toBe(6)
+        expect(result.error).toBe("Condition ended unexpectedly at position 7")
+    })
+})
+
+describe("parseCondition cache", () => {
+    it("keeps recently used conditions and forgets the oldest", () => {
+        const kept = parseCondition('q1 == "kept"')
+        const dropped = parseCondition('q1 == "dropped"')
+        for (let i = 0; i < 300; i++) {
+            parseCondition(`q2 == ${i}`)
+            parseCondition('q1 == "kept"')
+        }
+
+        expect(parseCondition('q1 == "kept"')).toBe(kept)
+        expect(parseCondition('q1 == "dropped"')).not.toBe(dropped)
+        expect(parseCondition('q1 == "dropped"')).toEqual(dropped)
+    })
+})
@@ -0,0 +1,777 @@
+// ===================================================================
+// CONDITION EXPRESSIONS
+// ===================================================================
+//
+// A small, sandboxed expression language for SubmissionAction.condition.
+// Conditions are parsed into an AST and interpreted, so nothing is ever
+// compiled with `new Function` and only form answers can be read.
+//
+//   q2 >= 18 and q1 == "Yes"
+//   not (email includes "@company.com")
+//   q4 in ["Daily", "Weekly"] or q5.length > 2
+//   formData["field-1"] != null
+//
+// Bare identifiers are field IDs; `formData.x` is accepted as well so
+// conditions written for the old JavaScript evaluator keep working,
+// including the `.includes()`, `.startsWith()` and `.endsWith()` methods.
+//
+// `not` negates the whole comparison after it, so `not q1 == "Yes"` means
+// `not (q1 == "Yes")`. `!` binds tightly like in JavaScript, so `!q1 == x`
+// means `(!q1) == x`.
+
+export type ConditionNode =
+    | { type: "literal"; value: string | number | boolean | null }
+    | { type: "list"; items: ConditionNode[] }
+    | { type: "reference"; name: string }
+    | { type: "member"; object: ConditionNode; property: ConditionNode }
+    | {
+          type: "call"
+          object: ConditionNode
+          method: ConditionMethod
+          args: ConditionNode[]
+      }
+    | { type: "unary"; operator: "not" | "-"; operand: ConditionNode }
+    | {
+          type: "binary"
+          operator: BinaryOperator
+          left: ConditionNode
+          right: ConditionNode
+      }
+    | {
+          type: "logical"
+          operator: "and" | "or"
+          left: ConditionNode
+          right: ConditionNode
+      }
+
+type ConditionMethod = "includes" | "startsWith" | "endsWith"
+
+type BinaryOperator =
+    | "=="
+    | "!="
+    | "<"
+    | "<="
+    | ">"
+    | ">="
+    | "in"
+    | "not in"
+    | "includes"
+    | "+"
+    | "-"
+    | "*"
+    | "/"
+    | "%"
+
+export interface ConditionValidation {
+    valid: boolean
+    error?: string
+    position?: number
+    references: string[] // Field IDs the condition reads
+    unknownReferences: string[] // References that are not known field IDs
+}
+
+export class ConditionSyntaxError extends Error {
+    position: number
+
+    constructor(message: string, position: number) {
+        super(`${message} at position ${position + 1}`)
+        this.name = "ConditionSyntaxError"
+        this.position = position
+    }
+}
+
+// ===================================================================
+// TOKENIZER
+// ===================================================================
+
+interface Token {
+    kind: "number" | "string" | "identifier" | "operator" | "end"
+    value: string
+    position: number
+}
+
+const OPERATORS = [
+    "===",
+    "!==",
+    "==",
+    "!=",
+    "<=",
+    ">=",
+    "&&",
+    "||",
+    "<",
+    ">",
+    "=",
+    "!",
+    "+",
+    "-",
+    "*",
+    "/",
+    "%",
+    "(",
+    ")",
+    "[",
+    "]",
+    ",",
+    ".",
+]
+
+function tokenize(source: string): Token[] {
+    const tokens: Token[] = []
+    let index = 0
+
+    while (index < source.length) {
+        const char = source[index]
+
+        if (/\s/.test(char)) {
+            index++
+            continue
+        }
+
+        if (/[0-9]/.test(char)) {
+            const match = /^[0-9]+(\.[0-9]+)?/.exec(source.slice(index))!
+            tokens.push({ kind: "number", value: match[0], position: index })
+            index += match[0].length
+            continue
+        }
+
+        if (char === '"' || char === "'") {
+            const start = index
+            let value = ""
+            index++
+            while (index < source.length && source[index] !== char) {
+                if (source[index] === "\\" && index + 1 < source.length) {
+                    index++
+                }
+                value += source[index]
+                index++
+            }
+            if (index >= source.length) {
+                throw new ConditionSyntaxError("Unterminated string", start)
+            }
+            index++
+            tokens.push({ kind: "string", value, position: start })
+            continue
+        }
+
+        if (/[A-Za-z_$]/.test(char)) {
+            const match = /^[A-Za-z_$][\w$]*/.exec(source.slice(index))!
+            tokens.push({
+                kind: "identifier",
+                value: match[0],
+                position: index,
+            })
+            index += match[0].length
+            continue
+        }
+
+        const operator = OPERATORS.find((op) => source.startsWith(op, index))
+        if (!operator) {
+            throw new ConditionSyntaxError(
+                `Unexpected character "${char}"`,
+                index
+            )
+        }
+        tokens.push({ kind: "operator", value: operator, position: index })
+        index += operator.length
+    }
+
+    tokens.push({ kind: "end", value: "", position: source.length })
+    return tokens
+}
+
+// ===================================================================
+// PARSER
+// ===================================================================
+
+const KEYWORDS = new Set([
+    "and",
+    "or",
+    "not",
+    "in",
+    "includes",
+    "contains",
+    "true",
+    "false",
+    "null",
+])
+
+const METHODS: ConditionMethod[] = ["includes", "startsWith", "endsWith"]
+
+// Parentheses, lists and chained negations deeper than this are rejected
+// instead of overflowing the stack
+const MAX_NESTING = 64
+
+class Parser {
+    private tokens: Token[]
+    private index = 0
+    private depth = 0
+
+    constructor(tokens: Token[]) {
+        this.tokens = tokens
+    }
+
+    parse(): ConditionNode {
+        const node = this.parseOr()
+        const token = this.peek()
+        if (token.kind !== "end") {
+            throw new ConditionSyntaxError(
+                `Unexpected "${token.value}"`,
+                token.position
+            )
+        }
+        return node
+    }
+
+    private peek(offset: number = 0): Token {
+        return this.tokens[
+            Math.min(this.index + offset, this.tokens.length - 1)
+        ]
+    }
+
+    private next(): Token {
+        const token = this.peek()
+        this.index++
+        return token
+    }
+
+    private isOperator(...values: string[]): boolean {
+        const token = this.peek()
+        return token.kind === "operator" && values.includes(token.value)
+    }
+
+    private isKeyword(...values: string[]): boolean {
+        const token = this.peek()
+        return token.kind === "identifier" && values.includes(token.value)
+    }
+
+    private expectOperator(value: string): void {
+        const token = this.next()
+        if (token.kind !== "operator" || token.value !== value) {
+            throw new ConditionSyntaxError(
+                token.kind === "end"
+                    ? `Expected "${value}" but the condition ended`
+                    : `Expected "${value}" but found "${token.value}"`,
+                token.position
+            )
+        }
+    }
+
+    private nested(parse: () => ConditionNode): ConditionNode {
+        if (this.depth >= MAX_NESTING) {
+            throw new ConditionSyntaxError(
+                `Condition is nested more than ${MAX_NESTING} levels deep`,
+                this.peek().position
+            )
+        }
+        this.depth++
+        try {
+            return parse()
+        } finally {
+            this.depth--
+        }
+    }
+
+    private parseOr(): ConditionNode {
+        return this.nested(() => {
+            let left = this.parseAnd()
+            while (this.isKeyword("or") || this.isOperator("||")) {
+                this.next()
+                left = {
+                    type: "logical",
+                    operator: "or",
+                    left,
+                    right: this.parseAnd(),
+                }
+            }
+            return left
+        })
+    }
+
+    private parseAnd(): ConditionNode {
+        let left = this.parseNot()
+        while (this.isKeyword("and") || this.isOperator("&&")) {
+            this.next()
+            left = {
+                type: "logical",
+                operator: "and",
+                left,
+                right: this.parseNot(),
+            }
+        }
+        return left
+    }
+
+    private parseNot(): ConditionNode {
+        if (this.isKeyword("not")) {
+            this.next()
+            return {
+                type: "unary",
+                operator: "not",
+                operand: this.nested(() => this.parseNot()),
+            }
+        }
+        return this.parseComparison()
+    }
+
+    private parseComparison(): ConditionNode {
+        const left = this.parseAdditive()
+
+        let operator: BinaryOperator | null = null
+        if (this.isOperator("==", "===", "=")) operator = "=="
+        else if (this.isOperator("!=", "!==")) operator = "!="
+        else if (this.isOperator("<", "<=", ">", ">=")) {
+            operator = this.peek().value as BinaryOperator
+        } else if (this.isKeyword("in")) operator = "in"
+        else if (this.isKeyword("includes", "contains")) operator = "includes"
+        else if (
+            this.isKeyword("not") &&
+            this.peek(1).kind === "identifier" &&
+            this.peek(1).value === "in"
+        ) {
+            this.next()
+            operator = "not in"
+        }
+
+        if (!operator) return left
+        this.next()
+        return { type: "binary", operator, left, right: this.parseAdditive() }
+    }
+
+    private parseAdditive(): ConditionNode {
+        let left = this.parseMultiplicative()
+        while (this.isOperator("+", "-")) {
+            const operator = this.next().value as BinaryOperator
+            left = {
+                type: "binary",
+                operator,
+                left,
+                right: this.parseMultiplicative(),
+            }
+        }
+        return left
+    }
+
+    private parseMultiplicative(): ConditionNode {
+        let left = this.parseUnary()
+        while (this.isOperator("*", "/", "%")) {
+            const operator = this.next().value as BinaryOperator
+            left = { type: "binary", operator, left, right: this.parseUnary() }
+        }
+        return left
+    }
+
+    private parseUnary(): ConditionNode {
+        if (this.isOperator("-", "!")) {
+            const operator = this.next().value === "!" ? "not" : "-"
+            return {
+                type: "unary",
+                operator,
+                operand: this.nested(() => this.parseUnary()),
+            }
+        }
+        return this.parsePostfix()
+    }
+
+    private parsePostfix(): ConditionNode {
+        let node = this.parsePrimary()
+
+        for (;;) {
+            if (this.isOperator(".")) {
+                this.next()
+                const token = this.next()
+                if (token.kind !== "identifier") {
+                    throw new ConditionSyntaxError(
+                        'Expected a property name after "."',
+                        token.position
+                    )
+                }
+
+                if (this.isOperator("(")) {
+                    if (!METHODS.includes(token.value as ConditionMethod)) {
+                        throw new ConditionSyntaxError(
+                            `Unsupported method "${token.value}"`,
+                            token.position
+                        )
+                    }
+                    this.next()
+                    const args = this.parseArguments(")")
+                    node = {
+                        type: "call",
+                        object: node,
+                        method: token.value as ConditionMethod,
+                        args,
+                    }
+                } else {
+                    node = {
+                        type: "member",
+                        object: node,
+                        property: { type: "literal", value: token.value },
+                    }
+                }
+            } else if (this.isOperator("[")) {
+                this.next()
+                const property = this.parseOr()
+                this.expectOperator("]")
+                node = { type: "member", object: node, property }
+            } else {
+                return node
+            }
+        }
+    }
+
+    private parseArguments(closing: string): ConditionNode[] {
+        const items: ConditionNode[] = []
+        if (this.isOperator(closing)) {
+            this.next()
+            return items
+        }
+        for (;;) {
+            items.push(this.parseOr())
+            if (this.isOperator(",")) {
+                this.next()
+                continue
+            }
+            this.expectOperator(closing)
+            return items
+        }
+    }
+
+    private parsePrimary(): ConditionNode {
+        const token = this.next()
+
+        switch (token.kind) {
+            case "number":
+                return { type: "literal", value: Number(token.value) }
+            case "string":
+                return { type: "literal", value: token.value }
+            case "identifier":
+                if (token.value === "true")
+                    return { type: "literal", value: true }
+                if (token.value === "false")
+                    return { type: "literal", value: false }
+                if (token.value === "null")
+                    return { type: "literal", value: null }
+                if (KEYWORDS.has(token.value)) {
+                    throw new ConditionSyntaxError(
+                        `Unexpected keyword "${token.value}"`,
+                        token.position
+                    )
+                }
+                return { type: "reference", name: token.value }
+            case "operator":
+                if (token.value === "(") {
+                    const node = this.parseOr()
+                    this.expectOperator(")")
+                    return node
+                }
+                if (token.value === "[") {
+                    return { type: "list", items: this.parseArguments("]") }
+                }
+                break
+            case "end":
+                throw new ConditionSyntaxError(
+                    "Condition ended unexpectedly",
+                    token.position
+                )
+        }
+
+        throw new ConditionSyntaxError(
+            `Unexpected "${token.value}"`,
+            token.position
+        )
+    }
+}
+
+// Least recently used first, so editing a condition in the Inspector
+// (one parse per keystroke) cannot grow the cache without bound
+const parseCache = new Map<string, ConditionNode | ConditionSyntaxError>()
+const MAX_CACHED_CONDITIONS = 200
+
+// Parses a condition, throwing ConditionSyntaxError on invalid input.
+// Results are cached because the same strings are evaluated on every submit.
+export function parseCondition(source: string): ConditionNode {
+    let cached = parseCache.get(source)
+    if (cached) {
+        parseCache.delete(source)
+    } else {
+        try {
+            cached = new Parser(tokenize(source)).parse()
+        } catch (error) {
+            if (!(error instanceof ConditionSyntaxError)) throw error
+            cached = error
+        }
+        if (parseCache.size >= MAX_CACHED_CONDITIONS) {
+            parseCache.delete(parseCache.keys().next().value!)
+        }
+    }
+    parseCache.set(source, cached)
+    if (cached instanceof ConditionSyntaxError) throw cached
+    return cached
+}
+
+// ===================================================================
+// EVALUATOR
+// ===================================================================
+
+// Only own properties are readable, which keeps prototypes out of reach
+function readProperty(target: unknown, key: unknown): unknown {
+    if (target === null || target === undefined) return undefined
+    const name = String(key)
+    if (
+        name === "__proto__" ||
+        name === "constructor" ||
+        name === "prototype"
+    ) {
+        return undefined
+    }
+    return Object.prototype.hasOwnProperty.call(target, name)
+        ? (target as Record<string, unknown>)[name]
+        : undefined
+}
+
+function toNumber(value: unknown): number | null {
+    if (typeof value === "number") return Number.isFinite(value) ? value : null
+    if (typeof value === "string" && value.trim() !== "") {
+        const parsed = Number(value)
+        return Number.isFinite(parsed) ? parsed : null
+    }
+    return null
+}
+
+// Numbers and numeric strings compare by value so a slider answer (28)
+// equals a typed answer ("28"); everything else compares structurally.
+function looselyEquals(left: unknown, right: unknown): boolean {
+    if (left === undefined) left = null
+    if (right === undefined) right = null
+    if (left === right) return true
+    if (typeof left === "number" || typeof right === "number") {
+        const a = toNumber(left)
+        const b = toNumber(right)
+        return a !== null && b !== null && a === b
+    }
+    if (Array.isArray(left) || Array.isArray(right)) {
+        return JSON.stringify(left) === JSON.stringify(right)
+    }
+    return false
+}
+
+function compare(left: unknown, right: unknown): number | null {
+    const a = toNumber(left)
+    const b = toNumber(right)
+    if (a !== null && b !== null) return a - b
+    if (typeof left === "string" && typeof right === "string") {
+        return left.localeCompare(right)
+    }
+    return null
+}
+
+function includes(container: unknown, item: unknown): boolean {
+    if (typeof container === "string") {
+        return (
+            item !== null &&
+            item !== undefined &&
+            container.includes(String(item))
+        )
+    }
+    if (Array.isArray(container)) {
+        return container.some((entry) => looselyEquals(entry, item))
+    }
+    return false
+}
+
+function arithmetic(operator: string, left: unknown, right: unknown): unknown {
+    if (
+        operator === "+" &&
+        (typeof left === "string" || typeof right === "string")
+    ) {
+        return `${left ?? ""}${right ?? ""}`
+    }
+    const a = toNumber(left)
+    const b = toNumber(right)
+    if (a === null || b === null) return null
+    switch (operator) {
+        case "+":
+            return a + b
+        case "-":
+            return a - b
+        case "*":
+            return a * b
+        case "/":
+            return b === 0 ? null : a / b
+        case "%":
+            return b === 0 ? null : a % b
+    }
+    return null
+}
+
+function evaluateNode(
+    node: ConditionNode,
+    formData: Record<string, unknown>
+): unknown {
+    switch (node.type) {
+        case "literal":
+            return node.value
+        case "list":
+            return node.items.map((item) => evaluateNode(item, formData))
+        case "reference":
+            return node.name === "formData"
+                ? formData
+                : readProperty(formData, node.name)
+        case "member": {
+            const target = evaluateNode(node.object, formData)
+            const key = evaluateNode(node.property, formData)
+            // `.length` is the one non-own property worth exposing
+            if (
+                key === "length" &&
+                (typeof target === "string" || Array.isArray(target))
+            ) {
+                return target.length
+            }
+            return readProperty(target, key)
+        }
+        case "call": {
+            const target = evaluateNode(node.object, formData)
+            const arg =
+                node.args.length > 0
+                    ? evaluateNode(node.args[0], formData)
+                    : undefined
+            if (node.method === "includes") return includes(target, arg)
+            if (typeof target !== "string" || arg === undefined || arg === null)
+                return false
+            return node.method === "startsWith"
+                ? target.startsWith(String(arg))
+                : target.endsWith(String(arg))
+        }
+        case "unary": {
+            const operand = evaluateNode(node.operand, formData)
+            if (node.operator === "not") return !isTruthy(operand)
+            const number = toNumber(operand)
+            return number === null ? null : -number
+        }
+        case "logical": {
+            const left = isTruthy(evaluateNode(node.left, formData))
+            if (node.operator === "and")
+                return left && isTruthy(evaluateNode(node.right, formData))
+            return left || isTruthy(evaluateNode(node.right, formData))
+        }
+        case "binary": {
+            const left = evaluateNode(node.left, formData)
+            const right = evaluateNode(node.right, formData)
+            switch (node.operator) {
+                case "==":
+                    return looselyEquals(left, right)
+                case "!=":
+                    return !looselyEquals(left, right)
+                case "<":
+                case "<=":
+                case ">":
+                case ">=": {
+                    const order = compare(left, right)
+                    if (order === null) return false
+                    if (node.operator === "<") return order < 0
+                    if (node.operator === "<=") return order <= 0
+                    if (node.operator === ">") return order > 0
+                    return order >= 0
+                }
+                case "in":
+                    return includes(right, left)
+                case "not in":
+                    return !includes(right, left)
+                case "includes":
+                    return includes(left, right)
+                default:
+                    return arithmetic(node.operator, left, right)
+            }
+        }
+    }
+}
+
+// Empty answers ("" and []) count as false, like an unanswered question
+function isTruthy(value: unknown): boolean {
+    if (Array.isArray(value)) return value.length > 0
+    return Boolean(value)
+}
+
+// Evaluates a condition against the answers. Throws ConditionSyntaxError
+// for invalid conditions; evaluation itself never throws.
+export function evaluateConditionExpression(
+    source: string,
+    formData: Record<string, unknown>
+): boolean {
+    return isTruthy(evaluateNode(parseCondition(source), formData))
+}
+
+// ===================================================================
+// VALIDATION
+// ===================================================================
+
+function collectReferences(node: ConditionNode, references: Set<string>): void {
+    switch (node.type) {
+        case "reference":
+            if (node.name !== "formData") references.add(node.name)
+            return
+        case "member":
+            // formData.q1 and formData["q1"] read field q1
+            if (
+                node.object.type === "reference" &&
+                node.object.name === "formData" &&
+                node.property.type === "literal" &&
+                typeof node.property.value === "string"
+            ) {
+                references.add(node.property.value)
+                return
+            }
+            collectReferences(node.object, references)
+            collectReferences(node.property, references)
+            return
+        case "call":
+            collectReferences(node.object, references)
+            node.args.forEach((arg) => collectReferences(arg, references))
+            return
+        case "list":
+            node.items.forEach((item) => collectReferences(item, references))
+            return
+        case "unary":
+            collectReferences(node.operand, references)
+            return
+        case "binary":
+        case "logical":
+            collectReferences(node.left, references)
+            collectReferences(node.right, references)
+            return
+    }
+}
+
+// Checks a condition without evaluating it. When fieldIds are given,
+// references to unknown fields are reported so typos surface early.
+export function validateCondition(
+    source: string,
+    fieldIds?: string[]
+): ConditionValidation {
+    if (!source || source.trim() === "") {
+        return { valid: true, references: [], unknownReferences: [] }
+    }
+
+    try {
+        const references = new Set<string>()
+        collectReferences(parseCondition(source), references)
+        const list = Array.from(references)
+        return {
+            valid: true,
+            references: list,
+            unknownReferences: fieldIds
+                ? list.filter((id) => !fieldIds.includes(id))
+                : [],
+        }
+    } catch (error) {
+        if (!(error instanceof ConditionSyntaxError)) throw error
+        return {
+            valid: false,
+            error: error.message,
+            position: error.position,
+            references: [],
+            unknownReferences: [],
+        }
+    }
+}
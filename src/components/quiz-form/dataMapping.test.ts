@@ -0,0 +1,199 @@
+import { describe, expect, it } from "vitest"
+import {
+    applyDataMapping,
+    DataMappingError,
+    parseDataMapping,
+    renderTemplate,
+    resolvePath,
+} from "./dataMapping"
+
+const payload = {
+    sessionId: "session-1",
+    formData: {
+        q1: "Yes",
+        q2: "42",
+        tags: "a, b,,c",
+        topics: ["Pain", "Gas"],
+        contact: { email: "ana@company.com" },
+        empty: "",
+    },
+    results: { crm: { id: 7 } },
+}
+
+describe("resolvePath", () => {
+    it.each<[string, unknown]>([
+        ["sessionId", "session-1"],
+        ["results.crm.id", 7],
+        ["formData.q1", "Yes"],
+        ["q1", "Yes"],
+        ["contact.email", "ana@company.com"],
+        ["q9", undefined],
+        ["results.erp.id", undefined],
+        ["q1.length.x", undefined],
+    ])("%s is %j", (path, value) => {
+        expect(resolvePath(payload, path)).toEqual(value)
+    })
+})
+
+describe("renderTemplate", () => {
+    it.each([
+        ["{{q1}} / {{ formData.q2 }}", "Yes / 42"],
+        ["{{topics}}", "Pain, Gas"],
+        ["{{contact}}", '{"email":"ana@company.com"}'],
+        ["[{{q9}}]", "[]"],
+        ["no placeholders", "no placeholders"],
+    ])("%s renders %s", (template, output) => {
+        expect(renderTemplate(template, payload)).toBe(output)
+    })
+
+    it("encodes every value", () => {
+        expect(
+            renderTemplate(
+                "https://x.test/?t={{topics}}&s={{sessionId}}",
+                payload,
+                encodeURIComponent
+            )
+        ).toBe("https://x.test/?t=Pain%2C%20Gas&s=session-1")
+    })
+})
+
+describe("applyDataMapping", () => {
+    it("sends only the mapped keys", () => {
+        expect(
+            applyDataMapping(
+                payload,
+                JSON.stringify({
+                    answer: "q1",
+                    "contact.email": "formData.contact.email",
+                    label: "{{q1}} ({{q2}})",
+                    source: { value: "web" },
+                    version: 2,
+                    consent: true,
+                    note: null,
+                    crm: { id: "results.crm.id" },
+                })
+            )
+        ).toEqual({
+            answer: "Yes",
+            contact: { email: "ana@company.com" },
+            label: "Yes (42)",
+            source: "web",
+            version: 2,
+            consent: true,
+            note: null,
+            crm: { id: 7 },
+        })
+    })
+
+    it("lays the mapped keys over the payload in merge mode", () => {
+        expect(
+            applyDataMapping(
+                payload,
+                { sessionId: { value: "replaced" }, answer: "q1" },
+                "merge"
+            )
+        ).toEqual({ ...payload, sessionId: "replaced", answer: "Yes" })
+    })
+
+    it("returns the payload when there is no mapping", () => {
+        expect(applyDataMapping(payload, undefined)).toBe(payload)
+        expect(applyDataMapping(payload, "  ")).toBe(payload)
+    })
+
+    it("leaves out paths that do not resolve", () => {
+        expect(
+            applyDataMapping(payload, { answer: "q9", nested: { id: "q8" } })
+        ).toEqual({ nested: {} })
+    })
+
+    it.each<[string, object, unknown]>([
+        ["a default for a missing path", { path: "q9", default: 0 }, 0],
+        ["a default for an empty answer", { path: "empty", default: "-" }, "-"],
+        ["split", { path: "tags", split: "," }, ["a", "b", "c"]],
+        ["join", { path: "topics", join: " | " }, "Pain | Gas"],
+        ["a template spec", { template: "{{q1}}!" }, "Yes!"],
+        ["a string", { path: "topics", type: "string" }, "Pain, Gas"],
+        ["a number", { path: "q2", type: "number" }, 42],
+        ["an integer", { value: "4.9", type: "integer" }, 4],
+        ["a yes/no boolean", { path: "q1", type: "boolean" }, true],
+        ["an empty boolean", { path: "empty", type: "boolean" }, false],
+        ["a list boolean", { path: "topics", type: "boolean" }, true],
+        ["an array", { path: "q1", type: "array" }, ["Yes"]],
+        ["JSON", { value: '{"a":[1]}', type: "json" }, { a: [1] }],
+        ["a missing value", { path: "q9", type: "number" }, undefined],
+    ])("applies %s", (_, spec, value) => {
+        expect(applyDataMapping(payload, { out: spec })).toEqual(
+            value === undefined ? {} : { out: value }
+        )
+    })
+})
+
+describe("DataMappingError", () => {
+    it.each<[string, Record<string, unknown>, string]>([
+        [
+            "a number that is not one",
+            { out: { path: "q1", type: "number" } },
+            'Data mapping "out": cannot convert "Yes" to a number',
+        ],
+        [
+            "an empty number",
+            { out: { path: "empty", type: "integer" } },
+            'Data mapping "out": cannot convert "" to a number',
+        ],
+        [
+            "a boolean that is not one",
+            { out: { value: "maybe", type: "boolean" } },
+            'Data mapping "out": cannot convert "maybe" to a boolean',
+        ],
+        [
+            "invalid JSON",
+            { out: { value: "{", type: "json" } },
+            'Data mapping "out": value is not valid JSON',
+        ],
+        [
+            "an unknown type",
+            { out: { path: "q1", type: "date" } },
+            'Data mapping "out": unknown type "date"',
+        ],
+        [
+            "a missing required value",
+            { contact: { email: { path: "q9", required: true } } },
+            'Data mapping "contact.email": required value is missing',
+        ],
+        [
+            "an empty required list",
+            { out: { path: "empty", split: ",", required: true } },
+            'Data mapping "out": required value is missing',
+        ],
+        [
+            "an array source",
+            { out: ["q1"] },
+            'Data mapping "out": arrays are not mapping sources, use { "value": [...] }',
+        ],
+    ])("reports %s", (_, mapping, message) => {
+        const apply = () => applyDataMapping(payload, mapping)
+        expect(apply).toThrow(DataMappingError)
+        expect(apply).toThrow(message)
+    })
+
+    it("carries the output key", () => {
+        try {
+            applyDataMapping(payload, { out: { value: "x", type: "number" } })
+        } catch (error) {
+            expect(error).toBeInstanceOf(DataMappingError)
+            expect((error as DataMappingError).key).toBe("out")
+        }
+        expect.assertions(2)
+    })
+
+    it.each([
+        ["{ broken", /^Invalid data mapping JSON: /],
+        ["[1, 2]", /^Data mapping must be a JSON object$/],
+        ['"q1"', /^Data mapping must be a JSON object$/],
+    ])("rejects the mapping %s", (mapping, message) => {
+        expect(() => parseDataMapping(mapping)).toThrow(message)
+        expect(() => applyDataMapping(payload, mapping)).toThrow(
+            DataMappingError
+        )
+    })
+})
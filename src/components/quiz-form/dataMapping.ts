@@ -0,0 +1,267 @@
+// ===================================================================
+// DATA MAPPING
+// ===================================================================
+//
+// Shapes the payload an action sends. A mapping is a JSON object whose
+// keys are output keys ("contact.email" builds nested objects) and whose
+// values describe where each output comes from:
+//
+//   "formData.q1"                      path into the payload
+//   "{{formData.q1}} / {{q2}}"          string template
+//   42, true, null                     constant
+//   { "value": "web" }                 constant of any type
+//   { "path": "formData.q5", "join": ", " }
+//   { "path": "formData.tags", "split": ",", "type": "array" }
+//   { "path": "formData.q2", "type": "number", "default": 0 }
+//   { "template": "{{q1}}", "required": true }
+//   { "contact": { "email": "formData.q3" } }   nested output object
+//
+// Paths resolve from the payload root first ("sessionId", "results.x.id")
+// and then from formData, so bare field IDs ("q1") work too.
+
+export type DataMappingType =
+    "string" | "number" | "integer" | "boolean" | "array" | "json"
+
+export interface FieldMappingSpec {
+    path?: string
+    template?: string
+    value?: unknown
+    default?: unknown
+    type?: DataMappingType
+    join?: string
+    split?: string
+    required?: boolean
+}
+
+// "mapped" sends only the mapped keys; "merge" lays them over the payload
+export type DataMappingMode = "mapped" | "merge"
+
+export class DataMappingError extends Error {
+    key?: string
+
+    constructor(message: string, key?: string) {
+        super(key ? `Data mapping "${key}": ${message}` : message)
+        this.name = "DataMappingError"
+        this.key = key
+    }
+}
+
+const SPEC_KEYS = ["path", "template", "value"]
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === "object" && value !== null && !Array.isArray(value)
+}
+
+function isSpec(value: unknown): value is FieldMappingSpec {
+    return isPlainObject(value) && SPEC_KEYS.some((key) => key in value)
+}
+
+function getPath(source: unknown, path: string): unknown {
+    return path
+        .split(".")
+        .reduce<unknown>(
+            (current, key) =>
+                current === null || current === undefined
+                    ? undefined
+                    : (current as Record<string, unknown>)[key],
+            source
+        )
+}
+
+// Looks a path up from the payload root, then from formData
+export function resolvePath(data: unknown, path: string): unknown {
+    const value = getPath(data, path)
+    if (value !== undefined) return value
+    return getPath(getPath(data, "formData"), path)
+}
+
+function stringify(value: unknown): string {
+    if (value === undefined || value === null) return ""
+    if (Array.isArray(value)) return value.join(", ")
+    if (typeof value === "object") return JSON.stringify(value)
+    return String(value)
+}
+
+// Renders "{{path}}" placeholders against the payload. Unknown paths
+// render empty; arrays are joined with ", ". `encode` escapes each value,
+// e.g. encodeURIComponent for URLs.
+export function renderTemplate(
+    template: string,
+    data: unknown,
+    encode: (value: string) => string = (value) => value
+): string {
+    return template.replace(/\{\{\s*([\w.-]+)\s*\}\}/g, (_match, path) =>
+        encode(stringify(resolvePath(data, String(path))))
+    )
+}
+
+function coerce(value: unknown, type: DataMappingType, key: string): unknown {
+    if (value === undefined || value === null) return value
+
+    switch (type) {
+        case "string":
+            return stringify(value)
+        case "number":
+        case "integer": {
+            const number =
+                typeof value === "number"
+                    ? value
+                    : typeof value === "string" && value.trim() !== ""
+                      ? Number(value)
+                      : NaN
+            if (!Number.isFinite(number)) {
+                throw new DataMappingError(
+                    `cannot convert ${JSON.stringify(value)} to a number`,
+                    key
+                )
+            }
+            return type === "integer" ? Math.trunc(number) : number
+        }
+        case "boolean":
+            if (typeof value === "string") {
+                const normalized = value.trim().toLowerCase()
+                if (["true", "yes", "1", "on"].includes(normalized)) {
+                    return true
+                }
+                if (["false", "no", "0", "off", ""].includes(normalized)) {
+                    return false
+                }
+                throw new DataMappingError(
+                    `cannot convert "${value}" to a boolean`,
+                    key
+                )
+            }
+            return Array.isArray(value) ? value.length > 0 : Boolean(value)
+        case "array":
+            return Array.isArray(value) ? value : [value]
+        case "json":
+            if (typeof value !== "string") return value
+            try {
+                return JSON.parse(value)
+            } catch {
+                throw new DataMappingError("value is not valid JSON", key)
+            }
+        default:
+            throw new DataMappingError(`unknown type "${type}"`, key)
+    }
+}
+
+function resolveSpec(spec: FieldMappingSpec, data: unknown, key: string) {
+    let value: unknown
+    if ("value" in spec) value = spec.value
+    else if (spec.template !== undefined) {
+        value = renderTemplate(spec.template, data)
+    } else if (spec.path !== undefined) value = resolvePath(data, spec.path)
+
+    if (
+        (value === undefined || value === null || value === "") &&
+        "default" in spec
+    ) {
+        value = spec.default
+    }
+
+    if (spec.split !== undefined && typeof value === "string") {
+        value = value
+            .split(spec.split)
+            .map((part) => part.trim())
+            .filter(Boolean)
+    }
+
+    if (spec.join !== undefined && Array.isArray(value)) {
+        value = value.map(stringify).join(spec.join)
+    }
+
+    if (spec.type) value = coerce(value, spec.type, key)
+
+    if (
+        spec.required &&
+        (value === undefined ||
+            value === null ||
+            value === "" ||
+            (Array.isArray(value) && value.length === 0))
+    ) {
+        throw new DataMappingError("required value is missing", key)
+    }
+
+    return value
+}
+
+function setPath(target: Record<string, unknown>, key: string, value: unknown) {
+    const parts = key.split(".")
+    let current = target
+    parts.slice(0, -1).forEach((part) => {
+        if (!isPlainObject(current[part])) current[part] = {}
+        current = current[part] as Record<string, unknown>
+    })
+    current[parts[parts.length - 1]] = value
+}
+
+function mapObject(
+    mapping: Record<string, unknown>,
+    data: unknown,
+    prefix: string
+): Record<string, unknown> {
+    const output: Record<string, unknown> = {}
+
+    Object.entries(mapping).forEach(([outputKey, source]) => {
+        const key = prefix ? `${prefix}.${outputKey}` : outputKey
+        let value: unknown
+
+        if (typeof source === "string") {
+            value = source.includes("{{")
+                ? renderTemplate(source, data)
+                : resolvePath(data, source)
+        } else if (isSpec(source)) {
+            value = resolveSpec(source, data, key)
+        } else if (isPlainObject(source)) {
+            value = mapObject(source, data, key)
+        } else if (Array.isArray(source)) {
+            throw new DataMappingError(
+                'arrays are not mapping sources, use { "value": [...] }',
+                key
+            )
+        } else {
+            value = source // number, boolean or null constant
+        }
+
+        // Unresolved paths are left out rather than sent as undefined
+        if (value !== undefined) setPath(output, outputKey, value)
+    })
+
+    return output
+}
+
+// Parses a mapping JSON string, rejecting anything but an object
+export function parseDataMapping(mapping: string): Record<string, unknown> {
+    let parsed: unknown
+    try {
+        parsed = JSON.parse(mapping)
+    } catch (error) {
+        throw new DataMappingError(
+            `Invalid data mapping JSON: ${error instanceof Error ? error.message : String(error)}`
+        )
+    }
+    if (!isPlainObject(parsed)) {
+        throw new DataMappingError("Data mapping must be a JSON object")
+    }
+    return parsed
+}
+
+// Applies a mapping to the payload. An empty mapping returns the payload
+// unchanged; otherwise only mapped keys are sent unless mode is "merge".
+export function applyDataMapping(
+    data: unknown,
+    mapping: string | Record<string, unknown> | undefined,
+    mode: DataMappingMode = "mapped"
+): unknown {
+    if (mapping === undefined) return data
+    if (typeof mapping === "string" && mapping.trim() === "") return data
+
+    const mappingObject =
+        typeof mapping === "string" ? parseDataMapping(mapping) : mapping
+    const mapped = mapObject(mappingObject, data, "")
+
+    return mode === "merge" && isPlainObject(data)
+        ? { ...data, ...mapped }
+        : mapped
+}
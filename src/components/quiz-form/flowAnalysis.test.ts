@@ -0,0 +1,158 @@
+import { describe, expect, it } from "vitest"
+import {
+    analyzeFlow,
+    readFlowPages,
+    type FlowIssueKind,
+    type FlowPageSource,
+} from "./flowAnalysis"
+
+// Pages in form order, with optional Conditional Rules and Default Next
+const form = (...pages: Array<[string, string?, string?]>): FlowPageSource[] =>
+    pages.map(([id, conditionalRules, defaultNext]) => ({
+        id,
+        useConditionalLogic: conditionalRules !== undefined || !!defaultNext,
+        conditionalRules,
+        defaultNext,
+    }))
+
+const analyze = (fields: FlowPageSource[]) => analyzeFlow(readFlowPages(fields))
+
+describe("analyzeFlow", () => {
+    it.each<[string, FlowPageSource[], string[], string[][], string[]]>([
+        ["a linear form", form(["q1"], ["q2"], ["q3"]), [], [], []],
+        [
+            "a branch that skips a page",
+            form(["q1", "Yes: q3"], ["q2"], ["q3"]),
+            [],
+            [],
+            [],
+        ],
+        [
+            "a page every branch skips",
+            form(["q1", "Yes: q3", "q3"], ["q2"], ["q3"]),
+            ["q2"],
+            [],
+            [],
+        ],
+        [
+            "a loop with a way out",
+            form(["q1"], ["q2", "No: q1"], ["q3"]),
+            [],
+            [],
+            [],
+        ],
+        [
+            "a loop with no way out",
+            form(["q1"], ["q2", undefined, "q3"], ["q3", undefined, "q2"]),
+            [],
+            [["q2", "q3"]],
+            ["q1"],
+        ],
+        [
+            "a page that loops to itself",
+            form(["q1", undefined, "q1"], ["q2"]),
+            ["q2"],
+            [["q1"]],
+            [],
+        ],
+        [
+            "a loop only one branch enters",
+            form(
+                ["q1", "Yes: q2", "q3"],
+                ["q2", undefined, "q4"],
+                ["q4", undefined, "q2"],
+                ["q3"]
+            ),
+            [],
+            [["q2", "q4"]],
+            [],
+        ],
+    ])("%s", (_, fields, unreachable, cycles, deadEnds) => {
+        const analysis = analyze(fields)
+        expect(analysis.unreachable).toEqual(unreachable)
+        expect(analysis.cycles).toEqual(cycles)
+        expect(analysis.deadEnds).toEqual(deadEnds)
+    })
+
+    it("builds one edge per rule and one fallback edge per page", () => {
+        expect(
+            analyze(form(["q1", "Yes: q3"], ["q2", undefined, "q1"], ["q3"]))
+                .edges
+        ).toEqual([
+            { from: "q1", to: "q3", kind: "rule", label: '= "Yes"' },
+            { from: "q1", to: "q2", kind: "next", label: "next" },
+            { from: "q2", to: "q1", kind: "default", label: "default" },
+            { from: "q3", to: null, kind: "next", label: "submit" },
+        ])
+    })
+})
+
+describe("flow issues", () => {
+    it.each<[string, FlowPageSource[], FlowIssueKind, string]>([
+        [
+            "a rule that does not parse",
+            form(["q1", "Yes q2"], ["q2"]),
+            "rule-error",
+            'q1 Conditional Rules: Rule 1 "Yes q2": Missing : and the field ID to go to',
+        ],
+        [
+            "a rule to a page that does not exist",
+            form(["q1", "Yes: q9"], ["q2"]),
+            "missing-reference",
+            'q1: rule "= "Yes"" goes to unknown page "q9"',
+        ],
+        [
+            "a rule reading a field that does not exist",
+            form(["q1", "@q0 = Yes: q2"], ["q2"]),
+            "missing-reference",
+            'q1: rule "q0 = "Yes"" reads unknown field "q0"',
+        ],
+        [
+            "a default next page that does not exist",
+            form(["q1", undefined, "q9"], ["q2"]),
+            "missing-reference",
+            'q1: default next page "q9" does not exist',
+        ],
+        [
+            "a page no path reaches",
+            form(["q1", undefined, "q3"], ["q2"], ["q3"]),
+            "unreachable",
+            "No path reaches q2",
+        ],
+        [
+            "a loop with no way out",
+            form(["q1", undefined, "q2"], ["q2", undefined, "q1"]),
+            "cycle",
+            "Pages q1, q2 loop with no way to submit",
+        ],
+        [
+            "a page that can only enter a loop",
+            form(["q1", undefined, "q2"], ["q2", undefined, "q2"]),
+            "dead-end",
+            "Submission cannot be reached after q1",
+        ],
+    ])("reports %s", (_, fields, kind, message) => {
+        expect(analyze(fields).issues).toContainEqual(
+            expect.objectContaining({ kind, message })
+        )
+    })
+
+    it("checks visibleWhen conditions", () => {
+        const issues = analyzeFlow([
+            { id: "q1" },
+            { id: "q2", visibleWhen: "q1 ==" },
+            { id: "q3", visibleWhen: 'q0 == "Yes"' },
+        ]).issues
+        expect(issues.map((issue) => issue.message)).toEqual([
+            "q2 visibleWhen: Condition ended unexpectedly at position 6",
+            'q3 visibleWhen reads unknown field "q0"',
+        ])
+    })
+
+    it("reports nothing for a form that always submits", () => {
+        expect(
+            analyze(form(["q1", "Yes: q3, No: q2"], ["q2", "> 3: q1"], ["q3"]))
+                .issues
+        ).toEqual([])
+    })
+})
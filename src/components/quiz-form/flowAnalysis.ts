@@ -0,0 +1,292 @@
+// ===================================================================
+// FLOW ANALYSIS
+// ===================================================================
+//
+// Builds the page graph the form can walk, the same way getNextFieldId
+// picks the next page, and reports mistakes before anyone fills in the
+// form: branch rules that do not parse, targets that do not exist, pages
+// no path reaches, and pages from which the form can never be submitted,
+// like a loop with no way out.
+//
+// Each page has an edge per branch rule, then one fallback edge: to
+// defaultNext, or to the next page in order, or to submission after the
+// last page. Rules cannot be proven to never match, so every edge counts
+// as walkable. Pages with visibleWhen keep their edges too, because a
+// skipped page routes the form the way it would if it were shown.
+
+import {
+    describeBranchRule,
+    readBranchRules,
+    type BranchRule,
+    type BranchRuleSource,
+} from "./branchRules"
+import { validateCondition } from "./conditionExpression"
+
+export interface FlowPage {
+    id: string
+    question?: string
+    branchRules?: BranchRule[]
+    branchRuleErrors?: string[]
+    defaultNext?: string
+    visibleWhen?: string
+}
+
+export interface FlowPageSource extends BranchRuleSource {
+    id: string
+    question?: string
+    useConditionalLogic?: boolean
+    defaultNext?: string
+    visibleWhen?: string
+}
+
+export interface FlowEdge {
+    from: string
+    to: string | null // null submits the form
+    kind: "rule" | "default" | "next"
+    label: string
+}
+
+export type FlowIssueKind =
+    "rule-error" | "missing-reference" | "unreachable" | "cycle" | "dead-end"
+
+export interface FlowIssue {
+    level: "error" | "warning"
+    kind: FlowIssueKind
+    pageIds: string[]
+    message: string
+}
+
+export interface FlowAnalysis {
+    edges: FlowEdge[] // Only edges to pages that exist
+    issues: FlowIssue[]
+    unreachable: string[]
+    cycles: string[][] // Loops with no edge out
+    deadEnds: string[] // Reachable pages that cannot reach submission
+}
+
+// Pages as the form reads them from the Framer field settings, for tools
+// that start from the raw property values like the Inspector
+export function readFlowPages(fields: FlowPageSource[]): FlowPage[] {
+    return fields.map((field) => {
+        const page: FlowPage = {
+            id: field.id,
+            question: field.question,
+            visibleWhen: field.visibleWhen?.trim() || undefined,
+        }
+        if (field.useConditionalLogic) {
+            const { rules, errors } = readBranchRules(field)
+            page.branchRules = rules
+            page.branchRuleErrors = errors
+            page.defaultNext = field.defaultNext || undefined
+        }
+        return page
+    })
+}
+
+// Tarjan's algorithm, returning components with their pages in form order
+function stronglyConnected(
+    ids: string[],
+    successors: Map<string, string[]>
+): string[][] {
+    const index = new Map<string, number>()
+    const lowLink = new Map<string, number>()
+    const stack: string[] = []
+    const onStack = new Set<string>()
+    const components: string[][] = []
+    let counter = 0
+
+    const visit = (id: string) => {
+        index.set(id, counter)
+        lowLink.set(id, counter)
+        counter++
+        stack.push(id)
+        onStack.add(id)
+
+        successors.get(id)?.forEach((next) => {
+            if (!index.has(next)) {
+                visit(next)
+                lowLink.set(id, Math.min(lowLink.get(id)!, lowLink.get(next)!))
+            } else if (onStack.has(next)) {
+                lowLink.set(id, Math.min(lowLink.get(id)!, index.get(next)!))
+            }
+        })
+
+        if (lowLink.get(id) === index.get(id)) {
+            const component: string[] = []
+            let member: string
+            do {
+                member = stack.pop()!
+                onStack.delete(member)
+                component.push(member)
+            } while (member !== id)
+            components.push(
+                component.sort((a, b) => ids.indexOf(a) - ids.indexOf(b))
+            )
+        }
+    }
+
+    ids.forEach((id) => {
+        if (!index.has(id)) visit(id)
+    })
+    return components
+}
+
+export function analyzeFlow(pages: FlowPage[]): FlowAnalysis {
+    const ids = pages.map((page) => page.id)
+    const known = new Set(ids)
+    const edges: FlowEdge[] = []
+    const issues: FlowIssue[] = []
+
+    pages.forEach((page, index) => {
+        page.branchRuleErrors?.forEach((error) =>
+            issues.push({
+                level: "error",
+                kind: "rule-error",
+                pageIds: [page.id],
+                message: `${page.id} ${error}`,
+            })
+        )
+
+        page.branchRules?.forEach((rule) => {
+            const label = describeBranchRule(rule)
+            if (rule.field && !known.has(rule.field)) {
+                issues.push({
+                    level: "error",
+                    kind: "missing-reference",
+                    pageIds: [page.id],
+                    message: `${page.id}: rule "${label}" reads unknown field "${rule.field}"`,
+                })
+            }
+            if (known.has(rule.next)) {
+                edges.push({
+                    from: page.id,
+                    to: rule.next,
+                    kind: "rule",
+                    label,
+                })
+            } else {
+                issues.push({
+                    level: "error",
+                    kind: "missing-reference",
+                    pageIds: [page.id],
+                    message: `${page.id}: rule "${label}" goes to unknown page "${rule.next}"`,
+                })
+            }
+        })
+
+        // A missing defaultNext falls back to the linear order at runtime
+        if (page.defaultNext && !known.has(page.defaultNext)) {
+            issues.push({
+                level: "error",
+                kind: "missing-reference",
+                pageIds: [page.id],
+                message: `${page.id}: default next page "${page.defaultNext}" does not exist`,
+            })
+        }
+        if (page.defaultNext && known.has(page.defaultNext)) {
+            edges.push({
+                from: page.id,
+                to: page.defaultNext,
+                kind: "default",
+                label: "default",
+            })
+        } else {
+            const next = pages[index + 1]
+            edges.push({
+                from: page.id,
+                to: next ? next.id : null,
+                kind: "next",
+                label: next ? "next" : "submit",
+            })
+        }
+
+        if (page.visibleWhen) {
+            const condition = validateCondition(page.visibleWhen, ids)
+            if (!condition.valid) {
+                issues.push({
+                    level: "error",
+                    kind: "rule-error",
+                    pageIds: [page.id],
+                    message: `${page.id} visibleWhen: ${condition.error}`,
+                })
+            }
+            condition.unknownReferences.forEach((reference) =>
+                issues.push({
+                    level: "error",
+                    kind: "missing-reference",
+                    pageIds: [page.id],
+                    message: `${page.id} visibleWhen reads unknown field "${reference}"`,
+                })
+            )
+        }
+    })
+
+    const successors = new Map<string, string[]>(ids.map((id) => [id, []]))
+    const predecessors = new Map<string, string[]>(ids.map((id) => [id, []]))
+    const submitting = new Set<string>()
+    edges.forEach(({ from, to }) => {
+        if (to === null) {
+            submitting.add(from)
+            return
+        }
+        successors.get(from)!.push(to)
+        predecessors.get(to)!.push(from)
+    })
+
+    const walk = (start: Iterable<string>, links: Map<string, string[]>) => {
+        const seen = new Set<string>(start)
+        const queue = Array.from(seen)
+        while (queue.length > 0) {
+            links.get(queue.shift()!)?.forEach((id) => {
+                if (!seen.has(id)) {
+                    seen.add(id)
+                    queue.push(id)
+                }
+            })
+        }
+        return seen
+    }
+
+    const reachable = walk(ids.slice(0, 1), successors)
+    const canSubmit = walk(submitting, predecessors)
+
+    const unreachable = ids.filter((id) => !reachable.has(id))
+    if (unreachable.length > 0) {
+        issues.push({
+            level: "warning",
+            kind: "unreachable",
+            pageIds: unreachable,
+            message: `No path reaches ${unreachable.join(", ")}`,
+        })
+    }
+
+    const cycles = stronglyConnected(ids, successors).filter(
+        (component) =>
+            !canSubmit.has(component[0]) &&
+            (component.length > 1 ||
+                successors.get(component[0])!.includes(component[0]))
+    )
+    cycles.forEach((cycle) =>
+        issues.push({
+            level: "error",
+            kind: "cycle",
+            pageIds: cycle,
+            message: `Pages ${cycle.join(", ")} loop with no way to submit`,
+        })
+    )
+
+    const inCycle = new Set(cycles.flat())
+    const deadEnds = ids.filter(
+        (id) => reachable.has(id) && !canSubmit.has(id) && !inCycle.has(id)
+    )
+    if (deadEnds.length > 0) {
+        issues.push({
+            level: "error",
+            kind: "dead-end",
+            pageIds: deadEnds,
+            message: `Submission cannot be reached after ${deadEnds.join(", ")}`,
+        })
+    }
+
+    return { edges, issues, unreachable, cycles, deadEnds }
+}
@@ -0,0 +1,61 @@
+// ===================================================================
+// FORM SESSION
+// ===================================================================
+//
+// One visit to the form. The same ID goes to GTM events and to every
+// submission action, so analytics and CRM records can be joined. Pages
+// that already track a visitor can pass their ID in the URL:
+//
+//   https://example.com/quiz?session_id=abc123&utm_source=newsletter
+//
+// or through the form's Session ID prop, which wins over the URL.
+
+export const UTM_PARAMS = [
+    "utm_source",
+    "utm_medium",
+    "utm_campaign",
+    "utm_term",
+    "utm_content",
+] as const
+
+export type UtmParam = (typeof UTM_PARAMS)[number]
+
+export interface FormSession {
+    id: string
+    startedAt: number // ms since epoch
+    utm: Partial<Record<UtmParam, string>>
+    referrer?: string
+    landingUrl?: string
+}
+
+export interface FormSessionSeed {
+    id?: string // Use this ID instead of generating one
+    urlParam?: string // Query parameter to read the ID from, "session_id" by default
+}
+
+export function createSessionId(): string {
+    return `form_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
+}
+
+export function createFormSession(seed: FormSessionSeed = {}): FormSession {
+    const location = typeof window !== "undefined" ? window.location : null
+    const params = new URLSearchParams(location?.search || "")
+
+    const utm: FormSession["utm"] = {}
+    UTM_PARAMS.forEach((param) => {
+        const value = params.get(param)
+        if (value) utm[param] = value
+    })
+
+    return {
+        id:
+            seed.id?.trim() ||
+            params.get(seed.urlParam || "session_id")?.trim() ||
+            createSessionId(),
+        startedAt: Date.now(),
+        utm,
+        referrer:
+            (typeof document !== "undefined" && document.referrer) || undefined,
+        landingUrl: location?.href,
+    }
+}
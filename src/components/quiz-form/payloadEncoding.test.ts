@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest"
+import { encodePayload, flattenPayload, withQuery } from "./payloadEncoding"
+
+const payload = {
+    formData: { q1: "Yes", q3: ["A", "B"], 'say "hi"': "line 1\nline 2" },
+    sessionId: "form_1",
+    empty: null,
+    skipped: undefined,
+}
+
+describe("flattenPayload", () => {
+    it("uses bracket keys and repeats array answers", () => {
+        expect(flattenPayload(payload)).toEqual([
+            ["formData[q1]", "Yes"],
+            ["formData[q3]", "A"],
+            ["formData[q3]", "B"],
+            ['formData[say "hi"]', "line 1\nline 2"],
+            ["sessionId", "form_1"],
+            ["empty", ""],
+        ])
+    })
+})
+
+describe("encodePayload", () => {
+    it("signs the urlencoded body that is sent", () => {
+        const encoded = encodePayload(payload, "urlencoded")
+        expect(encoded.signedBody).toBe(encoded.body)
+        expect(encoded.body).toContain("formData%5Bq3%5D=A&formData%5Bq3%5D=B")
+    })
+
+    it("builds multipart bodies that parse back into the same fields", async () => {
+        const encoded = encodePayload(payload, "multipart")
+        expect(encoded.signedBody).toBe(encoded.body)
+        expect(encoded.contentType).toMatch(
+            /^multipart\/form-data; boundary=----FormBoundary[0-9a-f]{24}$/
+        )
+
+        const parsed = await new Response(encoded.body, {
+            headers: { "Content-Type": encoded.contentType! },
+        }).formData()
+        expect(parsed.getAll("formData[q3]")).toEqual(["A", "B"])
+        expect(parsed.get("formData[q1]")).toBe("Yes")
+        expect(parsed.get("sessionId")).toBe("form_1")
+        expect(parsed.get('formData[say "hi"]')).toBe("line 1\nline 2")
+    })
+
+    it("puts GET payloads in the query string and signs that", () => {
+        const encoded = encodePayload({ q1: "a b" }, "json", "get")
+        expect(encoded).toEqual({ query: "q1=a+b", signedBody: "q1=a+b" })
+        expect(withQuery("https://x.test/hook?k=1#top", encoded.query)).toBe(
+            "https://x.test/hook?k=1&q1=a+b#top"
+        )
+    })
+})
@@ -0,0 +1,125 @@
+// ===================================================================
+// PAYLOAD ENCODING
+// ===================================================================
+//
+// Encodes webhook payloads for receivers that do not take JSON. Form
+// encodings flatten the payload into fields: nested objects use bracket
+// keys and array answers repeat their key, the way HTML forms send
+// checkboxes:
+//
+//   { formData: { q1: "Yes", q3: ["A", "B"] }, sessionId: "form_1" }
+//
+//   formData[q1]=Yes&formData[q3]=A&formData[q3]=B&sessionId=form_1
+//
+// GET requests carry the same fields in the query string. Map the
+// payload with Data Mapping first to send flat keys ("q1=Yes").
+//
+// Every body is built as a string, multipart included, so request
+// signatures cover exactly the bytes that are sent.
+
+export type PayloadEncoding = "json" | "urlencoded" | "multipart"
+
+export interface EncodedPayload {
+    body?: string
+    contentType?: string // Includes the boundary for multipart
+    query?: string // For GET, without the leading "?"
+    signedBody: string // The body, or the query string for GET
+}
+
+// Flattens a payload into ordered form fields. Null values are sent as
+// empty fields and undefined values are left out.
+export function flattenPayload(
+    data: unknown,
+    prefix = ""
+): Array<[string, string]> {
+    if (data === undefined) return []
+    if (data === null) return prefix ? [[prefix, ""]] : []
+
+    if (Array.isArray(data)) {
+        return data.flatMap((item, index) =>
+            typeof item === "object" && item !== null
+                ? flattenPayload(item, `${prefix}[${index}]`)
+                : flattenPayload(item, prefix)
+        )
+    }
+
+    if (typeof data === "object") {
+        return Object.entries(data).flatMap(([key, value]) =>
+            flattenPayload(value, prefix ? `${prefix}[${key}]` : key)
+        )
+    }
+
+    return prefix ? [[prefix, String(data)]] : []
+}
+
+// Field names are escaped the way browsers escape them in FormData
+function escapeMultipartName(name: string): string {
+    return name.replace(/\r/g, "%0D").replace(/\n/g, "%0A").replace(/"/g, "%22")
+}
+
+function createBoundary(): string {
+    const bytes = crypto.getRandomValues(new Uint8Array(12))
+    return `----FormBoundary${Array.from(bytes, (byte) =>
+        byte.toString(16).padStart(2, "0")
+    ).join("")}`
+}
+
+export function encodeMultipart(
+    fields: Array<[string, string]>,
+    boundary = createBoundary()
+): { body: string; contentType: string } {
+    const parts = fields.map(
+        ([name, value]) =>
+            `--${boundary}\r\nContent-Disposition: form-data; name="${escapeMultipartName(name)}"\r\n\r\n${value}\r\n`
+    )
+    return {
+        body: `${parts.join("")}--${boundary}--\r\n`,
+        contentType: `multipart/form-data; boundary=${boundary}`,
+    }
+}
+
+export function encodePayload(
+    data: unknown,
+    encoding: PayloadEncoding = "json",
+    method = "POST"
+): EncodedPayload {
+    if (method.toUpperCase() === "GET") {
+        const query = new URLSearchParams(flattenPayload(data)).toString()
+        return { query, signedBody: query }
+    }
+
+    switch (encoding) {
+        case "urlencoded": {
+            const body = new URLSearchParams(flattenPayload(data)).toString()
+            return {
+                body,
+                contentType: "application/x-www-form-urlencoded;charset=UTF-8",
+                signedBody: body,
+            }
+        }
+        case "multipart": {
+            const { body, contentType } = encodeMultipart(flattenPayload(data))
+            return { body, contentType, signedBody: body }
+        }
+        case "json": {
+            const body = JSON.stringify(data)
+            return {
+                body,
+                contentType: "application/json",
+                signedBody: body,
+            }
+        }
+        default:
+            throw new Error(`Unknown body encoding: ${encoding}`)
+    }
+}
+
+// Appends a query string to a URL that may already have one
+export function withQuery(url: string, query?: string): string {
+    if (!query) return url
+    const hashIndex = url.indexOf("#")
+    const base = hashIndex === -1 ? url : url.slice(0, hashIndex)
+    const hash = hashIndex === -1 ? "" : url.slice(hashIndex)
+    const separator = !base.includes("?") ? "?" : /[?&]$/.test(base) ? "" : "&"
+    return `${base}${separator}${query}${hash}`
+}
@@ -0,0 +1,82 @@
+// ===================================================================
+// REQUEST SIGNING
+// ===================================================================
+//
+// HMAC-SHA256 signatures so receivers can check a payload came from the
+// form. With a timestamp the signed string is "<timestamp>.<body>", which
+// lets receivers reject replays of old requests:
+//
+//   X-Form-Timestamp: 1718000000
+//   X-Form-Signature: sha256=5d41402abc4b2a76b9719d911017c592...
+//
+// Receivers recompute the digest over the raw request body (the query
+// string, without "?", for GET requests) with the shared secret and
+// compare it in constant time.
+
+const encoder = new TextEncoder()
+
+function toHex(buffer: ArrayBuffer): string {
+    return Array.from(new Uint8Array(buffer))
+        .map((byte) => byte.toString(16).padStart(2, "0"))
+        .join("")
+}
+
+// The string that gets signed, shared with receivers verifying it
+export function signedPayload(body: string, timestamp?: string): string {
+    return timestamp ? `${timestamp}.${body}` : body
+}
+
+export async function hmacSha256(secret: string, message: string) {
+    const subtle = globalThis.crypto?.subtle
+    if (!subtle) {
+        // Web Crypto is only exposed to secure (HTTPS) pages
+        throw new Error("Request signing requires Web Crypto (HTTPS)")
+    }
+
+    const key = await subtle.importKey(
+        "raw",
+        encoder.encode(secret),
+        { name: "HMAC", hash: "SHA-256" },
+        false,
+        ["sign"]
+    )
+    return toHex(await subtle.sign("HMAC", key, encoder.encode(message)))
+}
+
+export async function signRequest(
+    secret: string,
+    body: string,
+    timestamp?: string
+): Promise<string> {
+    return `sha256=${await hmacSha256(secret, signedPayload(body, timestamp))}`
+}
+
+// Short non-cryptographic hash (cyrb53) that works outside secure pages
+export function hashString(text: string): string {
+    let h1 = 0xdeadbeef
+    let h2 = 0x41c6ce57
+    for (let i = 0; i < text.length; i++) {
+        const char = text.charCodeAt(i)
+        h1 = Math.imul(h1 ^ char, 2654435761)
+        h2 = Math.imul(h2 ^ char, 1597334677)
+    }
+    h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507)
+    h1 ^= Math.imul(h2 ^ (h2 >>> 13), 3266489909)
+    h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507)
+    h2 ^= Math.imul(h1 ^ (h1 >>> 13), 3266489909)
+    return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36)
+}
+
+// Stable for every retry and outbox replay of the same action in the same
+// submission, so receivers can drop duplicates. Partial submissions pass a
+// revision (a hash of the answers sent) so a corrected answer gets a new
+// key instead of being dropped as a duplicate.
+export function createIdempotencyKey(
+    sessionId: string,
+    actionId: string,
+    revision?: string
+) {
+    return revision
+        ? `${sessionId}:${actionId}:${revision}`
+        : `${sessionId}:${actionId}`
+}
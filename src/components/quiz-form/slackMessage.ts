@@ -0,0 +1,217 @@
+// ===================================================================
+// SLACK MESSAGES
+// ===================================================================
+//
+// Builds the Block Kit message the slack action posts. Every answered
+// question becomes a section labelled with its question text, under a
+// header with the form title. Rules pick the emoji and the colour bar:
+//
+//   [
+//     { "when": "q2 >= 65", "emoji": ":rotating_light:", "color": "#e01e5a" },
+//     { "when": "q1 == \"Yes\"", "emoji": ":pill:", "color": "#ecb22e" }
+//   ]
+//
+// `when` uses the condition expression language and the first match wins.
+// Titles and fallback text accept {{placeholders}} like email templates.
+
+import { evaluateConditionExpression } from "./conditionExpression"
+import { renderTemplate } from "./dataMapping"
+
+export interface SlackMessageField {
+    id: string
+    question?: string
+    type: string
+}
+
+export interface SlackRule {
+    when: string
+    emoji?: string
+    color?: string
+}
+
+export interface SlackMessageTemplate {
+    title?: string // Header, defaults to the form title
+    fallbackText?: string // Notification and screen reader text
+    rules?: string | SlackRule[] // JSON string or parsed rules
+    include?: string[] // Question IDs to show, defaults to every answer
+}
+
+export interface SlackMessageData {
+    formData: Record<string, unknown>
+    sessionId?: string
+    timestamp?: string
+    completionTime?: number
+}
+
+export interface SlackMessage {
+    text: string
+    attachments: Array<{ color: string; blocks: SlackBlock[] }>
+}
+
+export type SlackBlock = Record<string, unknown>
+
+const DEFAULT_EMOJI = ":memo:"
+const DEFAULT_COLOR = "#36a64f"
+// Slack rejects messages with more than 50 blocks
+const MAX_ANSWER_BLOCKS = 45
+const MAX_SECTION_TEXT = 3000
+const MAX_HEADER_TEXT = 150
+
+// Pages that never hold an answer
+const NON_QUESTION_TYPES = ["content", "progress process"]
+
+export function parseSlackRules(rules: string | SlackRule[] = []): SlackRule[] {
+    let parsed: unknown = rules
+    if (typeof rules === "string") {
+        if (rules.trim() === "") return []
+        try {
+            parsed = JSON.parse(rules)
+        } catch (error) {
+            throw new Error(
+                `Invalid Slack rules JSON: ${error instanceof Error ? error.message : String(error)}`
+            )
+        }
+    }
+
+    if (!Array.isArray(parsed)) {
+        throw new Error("Slack rules must be a JSON array")
+    }
+    parsed.forEach((rule, index) => {
+        if (typeof rule?.when !== "string") {
+            throw new Error(`Slack rule ${index + 1} needs a "when" condition`)
+        }
+    })
+    return parsed
+}
+
+// Escapes the characters Slack's mrkdwn treats as control sequences
+function escapeText(text: string): string {
+    return text
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+}
+
+function truncate(text: string, max: number): string {
+    return text.length > max ? `${text.slice(0, max - 1)}…` : text
+}
+
+function isEmpty(value: unknown): boolean {
+    return (
+        value === undefined ||
+        value === null ||
+        value === "" ||
+        (Array.isArray(value) && value.length === 0)
+    )
+}
+
+export function formatSlackAnswer(value: unknown, type: string): string {
+    if (isEmpty(value)) return "_No answer_"
+
+    if (Array.isArray(value)) {
+        return value.map((item) => `• ${escapeText(String(item))}`).join("\n")
+    }
+
+    const text = escapeText(String(value))
+    switch (type) {
+        case "email":
+            return `<mailto:${text}|${text}>`
+        case "textarea":
+            return text
+                .split("\n")
+                .map((line) => `>${line}`)
+                .join("\n")
+        case "checkbox":
+            return `• ${text}`
+        default:
+            return text
+    }
+}
+
+function formatDuration(ms: number): string {
+    const seconds = Math.round(ms / 1000)
+    return seconds < 60
+        ? `${seconds}s`
+        : `${Math.floor(seconds / 60)}m ${seconds % 60}s`
+}
+
+export function buildSlackMessage(
+    template: SlackMessageTemplate,
+    data: SlackMessageData,
+    fields: SlackMessageField[] = [],
+    formTitle = "New form submission"
+): SlackMessage {
+    const formData = data.formData || {}
+    const rule = parseSlackRules(template.rules).find((r) =>
+        evaluateConditionExpression(r.when, formData)
+    )
+    const emoji = rule?.emoji || DEFAULT_EMOJI
+    const color = rule?.color || DEFAULT_COLOR
+
+    const title = renderTemplate(template.title || formTitle, data)
+
+    // Declared questions first, in form order, then answers without a
+    // matching question so nothing submitted goes missing
+    const known = fields.filter(
+        (field) => !NON_QUESTION_TYPES.includes(field.type)
+    )
+    const questions = [
+        ...known,
+        ...Object.keys(formData)
+            .filter((id) => !fields.some((field) => field.id === id))
+            .map((id) => ({ id, question: id, type: "text" })),
+    ].filter((field) =>
+        template.include && template.include.length > 0
+            ? template.include.includes(field.id)
+            : !isEmpty(formData[field.id])
+    )
+
+    const answerBlocks: SlackBlock[] = questions
+        .slice(0, MAX_ANSWER_BLOCKS)
+        .map((field) => ({
+            type: "section",
+            text: {
+                type: "mrkdwn",
+                text: truncate(
+                    `*${escapeText(field.question || field.id)}*\n${formatSlackAnswer(formData[field.id], field.type)}`,
+                    MAX_SECTION_TEXT
+                ),
+            },
+        }))
+
+    const context = [
+        data.timestamp && `Submitted ${data.timestamp}`,
+        data.completionTime !== undefined &&
+            `took ${formatDuration(data.completionTime)}`,
+        data.sessionId && `session ${data.sessionId}`,
+        questions.length > MAX_ANSWER_BLOCKS &&
+            `${questions.length - MAX_ANSWER_BLOCKS} more answers not shown`,
+    ].filter(Boolean) as string[]
+
+    const blocks: SlackBlock[] = [
+        {
+            type: "header",
+            text: {
+                type: "plain_text",
+                text: truncate(`${emoji} ${title}`, MAX_HEADER_TEXT),
+                emoji: true,
+            },
+        },
+        ...answerBlocks,
+        ...(context.length > 0
+            ? [
+                  {
+                      type: "context",
+                      elements: [{ type: "mrkdwn", text: context.join(" · ") }],
+                  },
+              ]
+            : []),
+    ]
+
+    return {
+        text: template.fallbackText
+            ? renderTemplate(template.fallbackText, data)
+            : `${title}: ${questions.length} answers`,
+        attachments: [{ color, blocks }],
+    }
+}
@@ -0,0 +1,114 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { SubmissionOutbox, type OutboxEntry } from "./submissionOutbox"
+import type { SubmissionAction } from "./submissionService"
+
+const action = (id: string): SubmissionAction => ({
+    id,
+    name: id,
+    type: "webhook",
+    enabled: true,
+    order: 0,
+    endpoint: `https://example.com/${id}`,
+})
+
+const entry = (options: Partial<OutboxEntry> = {}): OutboxEntry => ({
+    sessionId: "session-1",
+    submissionData: {
+        formData: { q1: "Yes" },
+        navigationPath: ["q1"],
+        timestamp: "2026-01-01T00:00:00.000Z",
+        sessionId: "session-1",
+    },
+    actions: [action("crm")],
+    createdAt: "2026-01-01T00:00:00.000Z",
+    attempts: 0,
+    ...options,
+})
+
+// URLs the replays requested
+let requested: string[]
+
+const respond = (answer: (url: string) => Response) =>
+    vi.stubGlobal(
+        "fetch",
+        vi.fn(async (input: RequestInfo | URL) => {
+            requested.push(String(input))
+            return answer(String(input))
+        })
+    )
+
+beforeEach(() => {
+    requested = []
+    vi.spyOn(console, "log").mockImplementation(() => {})
+    vi.spyOn(console, "warn").mockImplementation(() => {})
+    vi.spyOn(console, "error").mockImplementation(() => {})
+})
+
+afterEach(() => {
+    vi.restoreAllMocks()
+    vi.unstubAllGlobals()
+})
+
+describe("outbox replays", () => {
+    it("run the form's fallback when a queued action fails", async () => {
+        respond((url) =>
+            url.endsWith("/crm")
+                ? new Response("rejected", { status: 400 })
+                : new Response("{}", { status: 200 })
+        )
+        const outbox = new SubmissionOutbox("test")
+        await outbox.enqueue(
+            entry({ onAnyFailure: "alert", fallbackAction: action("alert") })
+        )
+
+        await outbox.flush()
+
+        expect(requested).toEqual([
+            "https://example.com/crm",
+            "https://example.com/alert",
+        ])
+        expect(outbox.getStatus().pending).toBe(0)
+    })
+
+    it("report an entry they give up on", async () => {
+        vi.stubGlobal(
+            "fetch",
+            vi.fn(async () => {
+                throw new TypeError("Failed to fetch")
+            })
+        )
+        const outbox = new SubmissionOutbox("test")
+        const dropped = vi.fn()
+        outbox.onDrop(dropped)
+        await outbox.enqueue(entry({ attempts: 9 }))
+
+        await outbox.flush()
+
+        expect(dropped).toHaveBeenCalledTimes(1)
+        expect(dropped.mock.calls[0][0]).toMatchObject({
+            sessionId: "session-1",
+            actions: [{ id: "crm" }],
+            attempts: 10,
+            lastError: "Failed to fetch",
+        })
+        expect(outbox.getStatus().pending).toBe(0)
+    })
+
+    it("keep an entry that still has attempts left", async () => {
+        vi.stubGlobal(
+            "fetch",
+            vi.fn(async () => {
+                throw new TypeError("Failed to fetch")
+            })
+        )
+        const outbox = new SubmissionOutbox("test")
+        const dropped = vi.fn()
+        outbox.onDrop(dropped)
+        await outbox.enqueue(entry({ attempts: 3 }))
+
+        await outbox.flush()
+
+        expect(dropped).not.toHaveBeenCalled()
+        expect(outbox.getStatus().pending).toBe(1)
+    })
+})
@@ -0,0 +1,420 @@
+// ===================================================================
+// SUBMISSION OUTBOX
+// ===================================================================
+//
+// Keeps actions that failed because the visitor was offline and replays
+// them once the connection is back, from IndexedDB when available and
+// localStorage otherwise.
+//
+// Entries are stored without credentials (API keys and signing secrets).
+// The outbox keeps them in memory for the current visit, and the form
+// hands them over again with setCredentials after a reload. An action
+// whose credentials are gone by then fails like any misconfigured action.
+
+import {
+    MultiActionSubmissionService,
+    SECRET_ACTION_OPTIONS,
+    withoutSecrets,
+    type SubmissionAction,
+    type SubmissionData,
+    type SubmissionField,
+    type SubmissionSuccessPolicy,
+} from "./submissionService"
+import {
+    getRelayReceipts,
+    rememberRelayReceipts,
+    type RelayConfig,
+} from "./submissionRelay"
+
+export interface OutboxEntry {
+    sessionId: string
+    submissionData: SubmissionData
+    actions: SubmissionAction[] // Actions still waiting to be delivered
+    completedResults?: Record<string, unknown> // Outputs of delivered actions
+    executeInParallel?: boolean
+    fields?: SubmissionField[]
+    relay?: RelayConfig // Replay through the relay the form was using
+    invalidConditionBehavior?: "skip" | "run"
+    successPolicy?: SubmissionSuccessPolicy
+    onAnyFailure?: string // Fallback action ID or failure message, as on the form
+    fallbackAction?: SubmissionAction // The onAnyFailure action, when it is one
+    receipts?: Record<string, string> // Relay receipts for completedResults
+    createdAt: string
+    attempts: number
+    lastError?: string
+}
+
+export interface OutboxStatus {
+    pending: number
+    isOnline: boolean
+    isFlushing: boolean
+    lastError?: string
+}
+
+interface OutboxStorage {
+    getAll(): Promise<OutboxEntry[]>
+    put(entry: OutboxEntry): Promise<void>
+    delete(sessionId: string): Promise<void>
+}
+
+const OUTBOX_STORE = "submissions"
+const OUTBOX_MAX_ATTEMPTS = 10
+
+class IndexedDBOutboxStorage implements OutboxStorage {
+    private name: string
+    private dbPromise: Promise<IDBDatabase> | null = null
+
+    constructor(name: string) {
+        this.name = name
+    }
+
+    private open(): Promise<IDBDatabase> {
+        if (!this.dbPromise) {
+            this.dbPromise = new Promise((resolve, reject) => {
+                const request = indexedDB.open(this.name, 1)
+                request.onupgradeneeded = () => {
+                    request.result.createObjectStore(OUTBOX_STORE, {
+                        keyPath: "sessionId",
+                    })
+                }
+                request.onsuccess = () => resolve(request.result)
+                request.onerror = () => reject(request.error)
+            })
+        }
+        return this.dbPromise
+    }
+
+    private async run<T>(
+        mode: IDBTransactionMode,
+        operation: (store: IDBObjectStore) => IDBRequest<T>
+    ): Promise<T> {
+        const db = await this.open()
+        return new Promise((resolve, reject) => {
+            const transaction = db.transaction(OUTBOX_STORE, mode)
+            const request = operation(transaction.objectStore(OUTBOX_STORE))
+            transaction.oncomplete = () => resolve(request.result)
+            transaction.onerror = () => reject(transaction.error)
+            transaction.onabort = () => reject(transaction.error)
+        })
+    }
+
+    getAll(): Promise<OutboxEntry[]> {
+        return this.run("readonly", (store) => store.getAll())
+    }
+
+    async put(entry: OutboxEntry): Promise<void> {
+        await this.run("readwrite", (store) => store.put(entry))
+    }
+
+    async delete(sessionId: string): Promise<void> {
+        await this.run("readwrite", (store) => store.delete(sessionId))
+    }
+}
+
+class LocalStorageOutboxStorage implements OutboxStorage {
+    private key: string
+    // Used when localStorage itself is unavailable (e.g. Safari private mode)
+    private memory: Record<string, OutboxEntry> = {}
+
+    constructor(key: string) {
+        this.key = key
+    }
+
+    private read(): Record<string, OutboxEntry> {
+        try {
+            const raw = window.localStorage.getItem(this.key)
+            return raw ? JSON.parse(raw) : {}
+        } catch {
+            return this.memory
+        }
+    }
+
+    private write(entries: Record<string, OutboxEntry>): void {
+        this.memory = entries
+        try {
+            window.localStorage.setItem(this.key, JSON.stringify(entries))
+        } catch (error) {
+            console.warn("⚠️ Outbox could not persist to localStorage:", error)
+        }
+    }
+
+    async getAll(): Promise<OutboxEntry[]> {
+        return Object.values(this.read())
+    }
+
+    async put(entry: OutboxEntry): Promise<void> {
+        this.write({ ...this.read(), [entry.sessionId]: entry })
+    }
+
+    async delete(sessionId: string): Promise<void> {
+        const entries = this.read()
+        delete entries[sessionId]
+        this.write(entries)
+    }
+}
+
+export class SubmissionOutbox {
+    private name: string
+    private storagePromise: Promise<OutboxStorage> | null = null
+    private credentials = new Map<string, Partial<SubmissionAction>>()
+    private relaySigningSecret?: string
+    private listeners = new Set<(status: OutboxStatus) => void>()
+    private dropListeners = new Set<(entry: OutboxEntry) => void>()
+    private started = false
+    private status: OutboxStatus = {
+        pending: 0,
+        isOnline:
+            typeof navigator === "undefined" || navigator.onLine !== false,
+        isFlushing: false,
+    }
+
+    constructor(name: string) {
+        this.name = name
+    }
+
+    private getStorage(): Promise<OutboxStorage> {
+        if (!this.storagePromise) {
+            this.storagePromise = (async () => {
+                if (typeof indexedDB !== "undefined") {
+                    try {
+                        const storage = new IndexedDBOutboxStorage(this.name)
+                        await storage.getAll()
+                        return storage
+                    } catch (error) {
+                        console.warn(
+                            "⚠️ IndexedDB unavailable, outbox falling back to localStorage:",
+                            error
+                        )
+                    }
+                }
+                return new LocalStorageOutboxStorage(this.name)
+            })()
+        }
+        return this.storagePromise
+    }
+
+    private setStatus(patch: Partial<OutboxStatus>): void {
+        this.status = { ...this.status, ...patch }
+        this.listeners.forEach((listener) => listener(this.status))
+    }
+
+    private async refreshPending(): Promise<void> {
+        const storage = await this.getStorage()
+        const entries = await storage.getAll()
+        this.setStatus({ pending: entries.length })
+    }
+
+    getStatus(): OutboxStatus {
+        return this.status
+    }
+
+    subscribe(listener: (status: OutboxStatus) => void): () => void {
+        this.listeners.add(listener)
+        return () => {
+            this.listeners.delete(listener)
+        }
+    }
+
+    // Called with every entry given up on after OUTBOX_MAX_ATTEMPTS
+    // replays, with the actions that never went through
+    onDrop(listener: (entry: OutboxEntry) => void): () => void {
+        this.dropListeners.add(listener)
+        return () => {
+            this.dropListeners.delete(listener)
+        }
+    }
+
+    // Remembers the credentials of these actions, by action ID, for replays
+    setCredentials(actions: SubmissionAction[], relay?: RelayConfig): void {
+        actions.forEach((action) => {
+            const secrets = Object.fromEntries(
+                SECRET_ACTION_OPTIONS.filter((option) => action[option]).map(
+                    (option) => [option, action[option]]
+                )
+            )
+            this.credentials.set(action.id, secrets)
+        })
+        if (relay) this.relaySigningSecret = relay.signingSecret
+    }
+
+    private withCredentials(entry: OutboxEntry): OutboxEntry {
+        const restore = (action: SubmissionAction): SubmissionAction => ({
+            ...action,
+            ...this.credentials.get(action.id),
+        })
+        return {
+            ...entry,
+            actions: entry.actions.map(restore),
+            fallbackAction:
+                entry.fallbackAction && restore(entry.fallbackAction),
+            relay: entry.relay && {
+                ...entry.relay,
+                signingSecret: this.relaySigningSecret,
+            },
+        }
+    }
+
+    // Stores a submission; entries are keyed by sessionId so queuing the
+    // same submission twice merges its actions instead of duplicating it
+    async enqueue(entry: OutboxEntry): Promise<void> {
+        this.setCredentials(
+            entry.fallbackAction
+                ? [...entry.actions, entry.fallbackAction]
+                : entry.actions,
+            entry.relay
+        )
+        entry = {
+            ...entry,
+            actions: entry.actions.map(withoutSecrets),
+            fallbackAction:
+                entry.fallbackAction && withoutSecrets(entry.fallbackAction),
+            relay: entry.relay && { endpoint: entry.relay.endpoint },
+        }
+
+        const storage = await this.getStorage()
+        const existing = (await storage.getAll()).find(
+            (e) => e.sessionId === entry.sessionId
+        )
+
+        const actions = existing
+            ? [
+                  ...existing.actions.filter(
+                      (a) => !entry.actions.some((b) => b.id === a.id)
+                  ),
+                  ...entry.actions,
+              ]
+            : entry.actions
+
+        await storage.put({
+            ...entry,
+            actions,
+            completedResults: {
+                ...existing?.completedResults,
+                ...entry.completedResults,
+            },
+            receipts: entry.relay
+                ? { ...existing?.receipts, ...entry.receipts }
+                : undefined,
+            createdAt: existing?.createdAt || entry.createdAt,
+            attempts: existing ? existing.attempts : entry.attempts,
+        })
+
+        console.log(
+            `📥 Queued ${entry.actions.length} actions for session ${entry.sessionId}`
+        )
+        await this.refreshPending()
+    }
+
+    // Replays every queued submission with the form's success policy and
+    // fallback; actions that fail again for network reasons stay queued,
+    // anything else is dropped after being reported
+    async flush(): Promise<void> {
+        if (this.status.isFlushing || !this.status.isOnline) return
+
+        const storage = await this.getStorage()
+        const entries = await storage.getAll()
+        if (entries.length === 0) {
+            this.setStatus({ pending: 0 })
+            return
+        }
+
+        console.log(`📤 Replaying ${entries.length} queued submissions`)
+        this.setStatus({ isFlushing: true })
+
+        let lastError: string | undefined
+        try {
+            for (const entry of entries) {
+                const { actions, fallbackAction, relay } =
+                    this.withCredentials(entry)
+                rememberRelayReceipts(entry.sessionId, entry.receipts)
+                const service = new MultiActionSubmissionService({
+                    actions: fallbackAction
+                        ? [...actions, fallbackAction]
+                        : actions,
+                    executeInParallel: entry.executeInParallel,
+                    fields: entry.fields,
+                    relay,
+                    invalidConditionBehavior: entry.invalidConditionBehavior,
+                    successPolicy: entry.successPolicy,
+                    onAnyFailure: entry.onAnyFailure,
+                })
+                const result = await service.executePrepared(
+                    entry.submissionData,
+                    entry.completedResults
+                )
+
+                result.results
+                    .filter((r) => r.status === "failed" && !r.offline)
+                    .forEach((r) => {
+                        lastError = r.error
+                        console.error(
+                            `❌ Dropping queued action ${r.action}:`,
+                            r.error
+                        )
+                    })
+
+                const remaining = entry.actions.filter((action) =>
+                    result.results.some(
+                        (r) => r.actionId === action.id && r.offline
+                    )
+                )
+                const completedResults = {
+                    ...entry.completedResults,
+                    ...Object.fromEntries(
+                        result.results
+                            .filter((r) => r.success)
+                            .map((r) => [r.actionId, r.data])
+                    ),
+                }
+                const updated: OutboxEntry = {
+                    ...entry,
+                    actions: remaining.map(withoutSecrets),
+                    relay: entry.relay && {
+                        endpoint: entry.relay.endpoint,
+                    },
+                    completedResults,
+                    receipts: entry.relay
+                        ? getRelayReceipts(entry.sessionId)
+                        : undefined,
+                    attempts: entry.attempts + 1,
+                    lastError: result.results.find((r) => r.offline)?.error,
+                }
+
+                if (remaining.length === 0) {
+                    await storage.delete(entry.sessionId)
+                } else if (updated.attempts >= OUTBOX_MAX_ATTEMPTS) {
+                    lastError = updated.lastError
+                    console.error(
+                        `❌ Giving up on ${remaining.length} queued actions for session ${entry.sessionId} after ${updated.attempts} attempts:`,
+                        updated.lastError
+                    )
+                    await storage.delete(entry.sessionId)
+                    this.dropListeners.forEach((listener) => listener(updated))
+                } else {
+                    await storage.put(updated)
+                }
+            }
+        } finally {
+            this.setStatus({ isFlushing: false, lastError })
+            await this.refreshPending()
+        }
+    }
+
+    // Replays on page load and whenever the browser comes back online
+    start(): void {
+        if (this.started || typeof window === "undefined") return
+        this.started = true
+
+        window.addEventListener("online", () => {
+            this.setStatus({ isOnline: true })
+            this.flush()
+        })
+        window.addEventListener("offline", () => {
+            this.setStatus({ isOnline: false })
+        })
+
+        this.refreshPending().then(() => this.flush())
+    }
+}
+
+export const submissionOutbox = new SubmissionOutbox("quiz_form_outbox")
@@ -0,0 +1,120 @@
+// ===================================================================
+// SUBMISSION RELAY
+// ===================================================================
+//
+// In relay mode the browser posts one envelope to a relay endpoint
+// instead of calling every destination itself. The relay holds the API
+// keys, runs the same action types and answers with the SubmissionResult
+// the browser would have produced, so no secret has to be set in Framer.
+// relay/ has a reference Node relay.
+//
+// Envelopes carry the actions the submission fires, without credentials.
+// The relay takes each action's type, destination and keys from its own
+// config and only lets the form set how the action runs and what it sends.
+//
+// Envelopes are signed like webhooks (see requestSigning.ts) when a
+// signing secret is set:
+//
+//   POST /submit
+//   X-Form-Timestamp: 1718000000
+//   X-Form-Signature: sha256=5d41402abc4b2a76b9719d911017c592...
+//
+//   { "version": 1, "submission": {...}, "actions": [...], "options": {...} }
+//
+// The secret is a Framer property, so it ships to every visitor. The
+// signature keeps out clients that never loaded the form, but it is not
+// authentication: anyone can read the secret from the page and sign their
+// own envelopes.
+//
+// Outputs of earlier runs (completedResults, e.g. from onStep actions)
+// only count when the relay issued a receipt for them: an HMAC of the
+// session, the action and its output under a key only the relay has.
+
+import { hmacSha256, signRequest } from "./requestSigning"
+import type {
+    FormSubmissionConfig,
+    SubmissionAction,
+    SubmissionData,
+} from "./submissionService"
+
+export const RELAY_ENVELOPE_VERSION = 1
+export const RELAY_SIGNATURE_HEADER = "X-Form-Signature"
+export const RELAY_TIMESTAMP_HEADER = "X-Form-Timestamp"
+
+export interface RelayConfig {
+    endpoint: string
+    signingSecret?: string // Shared with the relay, signing is off when empty
+}
+
+// The form settings that change how the relay runs the actions
+export type RelayOptions = Pick<
+    FormSubmissionConfig,
+    | "executeInParallel"
+    | "invalidConditionBehavior"
+    | "successPolicy"
+    | "onAllSuccess"
+    | "onAnyFailure"
+    | "fields"
+    | "formTitle"
+>
+
+export interface RelayEnvelope {
+    version: number
+    submission: SubmissionData
+    actions: SubmissionAction[] // As configured in Framer, without secrets
+    completedResults?: Record<string, unknown> // Outputs from an earlier run
+    receipts?: Record<string, string> // Relay receipts for completedResults
+    options: RelayOptions
+}
+
+export async function createRelayReceipt(
+    secret: string,
+    sessionId: string,
+    actionId: string,
+    data: unknown
+): Promise<string> {
+    return hmacSha256(
+        secret,
+        `${sessionId}.${actionId}.${JSON.stringify(data ?? null)}`
+    )
+}
+
+// Receipts the relay returned during this visit, by session then action ID
+const relayReceipts = new Map<string, Record<string, string>>()
+
+export function rememberRelayReceipts(
+    sessionId: string,
+    receipts?: Record<string, string>
+): void {
+    if (!receipts) return
+    relayReceipts.set(sessionId, {
+        ...relayReceipts.get(sessionId),
+        ...receipts,
+    })
+}
+
+export function getRelayReceipts(sessionId: string): Record<string, string> {
+    return relayReceipts.get(sessionId) || {}
+}
+
+export async function createRelayRequest(
+    relay: RelayConfig,
+    envelope: RelayEnvelope
+): Promise<RequestInit> {
+    const body = JSON.stringify(envelope)
+    const headers: Record<string, string> = {
+        "Content-Type": "application/json",
+    }
+
+    if (relay.signingSecret) {
+        const timestamp = String(Math.floor(Date.now() / 1000))
+        headers[RELAY_TIMESTAMP_HEADER] = timestamp
+        headers[RELAY_SIGNATURE_HEADER] = await signRequest(
+            relay.signingSecret,
+            body,
+            timestamp
+        )
+    }
+
+    return { method: "POST", headers, body }
+}
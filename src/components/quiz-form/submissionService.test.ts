@@ -0,0 +1,760 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import {
+    MultiActionSubmissionService,
+    type FormSubmissionConfig,
+    type SubmissionAction,
+    type SubmissionActionResult,
+    type SubmissionSuccessPolicy,
+} from "./submissionService"
+
+const action = (
+    id: string,
+    options: Partial<SubmissionAction> = {}
+): SubmissionAction => ({
+    id,
+    name: id,
+    type: "webhook",
+    enabled: true,
+    order: 0,
+    endpoint: `https://example.com/${id}`,
+    ...options,
+})
+
+const run = (
+    config: Partial<FormSubmissionConfig>,
+    formData: Record<string, unknown> = {}
+) =>
+    new MultiActionSubmissionService({
+        actions: [],
+        dryRun: true,
+        ...config,
+    }).executeActions(formData, Object.keys(formData))
+
+// Parsed bodies of the requests a dry run captured
+const sentBodies = (result: { requests?: Array<{ body?: string }> }) =>
+    (result.requests || []).map((request) => JSON.parse(request.body || ""))
+
+beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {})
+    vi.spyOn(console, "warn").mockImplementation(() => {})
+    vi.spyOn(console, "error").mockImplementation(() => {})
+})
+
+afterEach(() => {
+    vi.restoreAllMocks()
+    vi.unstubAllGlobals()
+})
+
+describe("slack action", () => {
+    it("lists the answers even when a data mapping leaves them out", async () => {
+        const result = await run(
+            {
+                actions: [
+                    action("slack", {
+                        type: "slack",
+                        slackTitle: "Lead {{lead}}",
+                        dataMapping: '{ "lead": "formData.name" }',
+                    }),
+                ],
+                fields: [
+                    { id: "name", question: "Your name", type: "text" },
+                    { id: "age", question: "Your age", type: "number" },
+                ],
+            },
+            { name: "Ana", age: 42 }
+        )
+
+        const [message] = sentBodies(result.results[0])
+        const blocks = message.attachments[0].blocks
+        expect(blocks[0].text.text).toBe(":memo: Lead Ana")
+        expect(
+            blocks
+                .slice(1, 3)
+                .map((block: { text: { text: string } }) => block.text.text)
+        ).toEqual(["*Your name*\nAna", "*Your age*\n42"])
+        expect(message.text).toBe("Lead Ana: 2 answers")
+    })
+})
+
+describe("retry backoff", () => {
+    const sleep = (ms: number, signal: AbortSignal) =>
+        (
+            new MultiActionSubmissionService({ actions: [] }) as unknown as {
+                sleep(ms: number, signal?: AbortSignal): Promise<void>
+            }
+        ).sleep(ms, signal)
+
+    it("stops listening for aborts once the delay is over", async () => {
+        const controller = new AbortController()
+        const add = vi.spyOn(controller.signal, "addEventListener")
+        const remove = vi.spyOn(controller.signal, "removeEventListener")
+
+        await sleep(1, controller.signal)
+
+        expect(add).toHaveBeenCalledTimes(1)
+        expect(remove).toHaveBeenCalledWith("abort", add.mock.calls[0][1])
+    })
+
+    it("rejects with the abort reason", async () => {
+        const controller = new AbortController()
+        const waiting = sleep(60_000, controller.signal)
+        controller.abort(new Error("Stopped"))
+        await expect(waiting).rejects.toThrow("Stopped")
+    })
+})
+
+describe("relay failures", () => {
+    const relayDown = (status: number) =>
+        vi.stubGlobal(
+            "fetch",
+            vi.fn(async (input: RequestInfo | URL) =>
+                String(input).startsWith("https://relay.example.com")
+                    ? new Response("down", { status })
+                    : new Response("{}", { status: 200 })
+            )
+        )
+
+    const submitThroughRelay = (config: Partial<FormSubmissionConfig>) =>
+        new MultiActionSubmissionService({
+            actions: [
+                action("crm"),
+                action("later", { condition: 'q1 == "No"', order: 1 }),
+                action("alert"),
+            ],
+            relay: { endpoint: "https://relay.example.com/submit" },
+            ...config,
+        }).executeActions({ q1: "Yes" }, ["q1"])
+
+    it("are finished like a local run, fallback included", async () => {
+        relayDown(502)
+        const result = await submitThroughRelay({ onAnyFailure: "alert" })
+
+        expect(
+            result.results.map((r) => [r.actionId, r.status, r.attempts])
+        ).toEqual([
+            ["crm", "failed", 1],
+            ["later", "skipped_by_condition", 0],
+        ])
+        expect(result.results[0].error).toBe("Relay failed: 502 down")
+        expect(result.summary).toEqual({ successful: 0, failed: 1, skipped: 1 })
+        expect(result.success).toBe(false)
+        expect(result.fallback).toMatchObject({
+            actionId: "alert",
+            status: "succeeded",
+        })
+    })
+
+    it("show the onAnyFailure message", async () => {
+        relayDown(500)
+        const result = await submitThroughRelay({
+            onAnyFailure: "Sorry, we could not save {{q1}}",
+        })
+        expect(result.failureMessage).toBe("Sorry, we could not save Yes")
+    })
+})
+
+// Answers each request by the action ID at the end of its URL, 200 with
+// an empty JSON object by default, and records when requests start and
+// end and what they sent
+const serve = (
+    answers: Record<
+        string,
+        (init?: RequestInit) => Response | Promise<Response>
+    > = {}
+) => {
+    const events: string[] = []
+    const bodies: Record<string, unknown> = {}
+    vi.stubGlobal(
+        "fetch",
+        vi.fn(async (input: RequestInfo | URL, init?: RequestInit) => {
+            const id = String(input).split("/").pop() || ""
+            events.push(`start ${id}`)
+            bodies[id] = JSON.parse(String(init?.body ?? "null"))
+            const response = await (answers[id]?.(init) ??
+                new Response("{}", {
+                    status: 200,
+                    headers: { "Content-Type": "application/json" },
+                }))
+            events.push(`end ${id}`)
+            return response
+        })
+    )
+    return { events, bodies }
+}
+
+const json = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), {
+        status,
+        headers: { "Content-Type": "application/json" },
+    })
+
+const later = (ms: number, response: Response) =>
+    new Promise<Response>((resolve) => setTimeout(() => resolve(response), ms))
+
+// Never answers, only rejects once the request is aborted
+const hang = (init?: RequestInit) =>
+    new Promise<Response>((_resolve, reject) =>
+        init?.signal?.addEventListener("abort", () =>
+            reject(init.signal?.reason)
+        )
+    )
+
+const submit = (
+    config: Partial<FormSubmissionConfig>,
+    priorResults?: Record<string, unknown>
+) =>
+    new MultiActionSubmissionService({ actions: [], ...config }).executeActions(
+        { q1: "Yes" },
+        ["q1"],
+        priorResults
+    )
+
+const statuses = (result: { results: SubmissionActionResult[] }) =>
+    result.results.map((r) => [r.actionId, r.status])
+
+describe("action graph", () => {
+    it("runs actions one after another by order", async () => {
+        const { events } = serve({ b: () => later(10, json({})) })
+        await submit({
+            actions: [action("a", { order: 1 }), action("b", { order: 0 })],
+        })
+        expect(events).toEqual(["start b", "end b", "start a", "end a"])
+    })
+
+    it("runs actions side by side in parallel mode", async () => {
+        const { events } = serve({ a: () => later(10, json({})) })
+        await submit({
+            actions: [action("a"), action("b", { order: 1 })],
+            executeInParallel: true,
+        })
+        expect(events).toEqual(["start a", "start b", "end b", "end a"])
+    })
+
+    it("waits for the actions an action needs and passes their results", async () => {
+        const { events, bodies } = serve({
+            a: () => later(10, json({ id: 7 })),
+        })
+        const result = await submit({
+            actions: [
+                action("b", {
+                    dependsOn: ["a"],
+                    dataMapping: '{ "crmId": "results.a.id" }',
+                }),
+                action("a", { order: 1 }),
+                action("c", { order: 2 }),
+            ],
+        })
+
+        expect(events.indexOf("start b")).toBeGreaterThan(
+            events.indexOf("end a")
+        )
+        expect(events.indexOf("start c")).toBeLessThan(events.indexOf("end a"))
+        expect(bodies.b).toEqual({ crmId: 7 })
+        expect(statuses(result)).toEqual([
+            ["b", "succeeded"],
+            ["a", "succeeded"],
+            ["c", "succeeded"],
+        ])
+    })
+
+    it("skips an action whose dependency failed", async () => {
+        serve({ a: () => json({}, 500) })
+        const result = await submit({
+            actions: [action("a"), action("b", { dependsOn: ["a"] })],
+        })
+        expect(statuses(result)).toEqual([
+            ["a", "failed"],
+            ["b", "skipped_by_dependency"],
+        ])
+        expect(result.results[1].error).toBe(
+            'Skipped: dependency "a" did not succeed'
+        )
+    })
+
+    it("counts a dependency that succeeded in an earlier run", async () => {
+        const { bodies } = serve()
+        const result = await submit(
+            {
+                actions: [
+                    action("b", {
+                        dependsOn: ["a"],
+                        dataMapping: '{ "crmId": "results.a.id" }',
+                    }),
+                ],
+            },
+            { a: { id: 3 } }
+        )
+        expect(statuses(result)).toEqual([["b", "succeeded"]])
+        expect(bodies.b).toEqual({ crmId: 3 })
+    })
+
+    it.each<[string, SubmissionAction[], string]>([
+        [
+            "a cycle",
+            [
+                action("a", { dependsOn: ["b"] }),
+                action("b", { dependsOn: ["a"] }),
+            ],
+            "Circular action dependency: a → b → a",
+        ],
+        [
+            "an action depending on itself",
+            [action("a", { dependsOn: ["a"] })],
+            'Action "a" cannot depend on itself',
+        ],
+        [
+            "an unknown dependency",
+            [action("a", { dependsOn: ["x"] })],
+            'Action "a" depends on unknown action "x"',
+        ],
+    ])("rejects %s before sending anything", async (_, actions, message) => {
+        const { events } = serve()
+        await expect(submit({ actions })).rejects.toThrow(message)
+        expect(events).toEqual([])
+    })
+})
+
+describe("stop rules", () => {
+    it("cancel the actions ordered after it", async () => {
+        const { events } = serve()
+        const result = await submit({
+            actions: [
+                action("a", { onSuccess: "stop" }),
+                action("b", { order: 1 }),
+                action("c", { order: 2 }),
+            ],
+        })
+        expect(statuses(result)).toEqual([
+            ["a", "succeeded"],
+            ["b", "skipped_by_stop"],
+            ["c", "skipped_by_stop"],
+        ])
+        expect(result.results[1].error).toBe("Stopped by action a")
+        expect(events).toEqual(["start a", "end a"])
+    })
+
+    it("cancel only the actions depending on it once dependsOn is used", async () => {
+        serve()
+        const result = await submit({
+            actions: [
+                action("a", { onSuccess: "stop" }),
+                action("b", { order: 1, dependsOn: ["a"] }),
+                action("c", { order: 2 }),
+            ],
+        })
+        expect(statuses(result)).toEqual([
+            ["a", "succeeded"],
+            ["b", "skipped_by_stop"],
+            ["c", "succeeded"],
+        ])
+    })
+
+    it("abort an action that is already running", async () => {
+        serve({ a: () => later(5, json({}, 500)), b: hang })
+        const result = await submit({
+            actions: [
+                action("a", { onError: "stop" }),
+                action("b", { order: 1 }),
+            ],
+            executeInParallel: true,
+        })
+        expect(statuses(result)).toEqual([
+            ["a", "failed"],
+            ["b", "skipped_by_stop"],
+        ])
+        expect(result.results[1]).toMatchObject({
+            attempts: 1,
+            error: "Stopped by action a",
+        })
+    })
+
+    it("leave network failures to the outbox", async () => {
+        vi.stubGlobal(
+            "fetch",
+            vi.fn(async (input: RequestInfo | URL) => {
+                if (String(input).endsWith("/a")) {
+                    throw new TypeError("Failed to fetch")
+                }
+                return json({})
+            })
+        )
+        const result = await submit({
+            actions: [
+                action("a", { onError: "stop" }),
+                action("b", { order: 1 }),
+            ],
+        })
+        expect(statuses(result)).toEqual([
+            ["a", "failed"],
+            ["b", "succeeded"],
+        ])
+        expect(result.results[0].offline).toBe(true)
+    })
+})
+
+describe("retries", () => {
+    const flaky = (failures: number) => {
+        let calls = 0
+        serve({
+            a: () => (++calls > failures ? json({}) : json({}, 503)),
+        })
+    }
+
+    it("retry until an attempt succeeds", async () => {
+        flaky(2)
+        const result = await submit({
+            actions: [
+                action("a", {
+                    onError: "retry",
+                    retryAttempts: 3,
+                    retryBaseDelay: 0,
+                }),
+            ],
+        })
+        expect(result.results[0]).toMatchObject({
+            status: "succeeded",
+            attempts: 3,
+            httpStatus: 200,
+        })
+    })
+
+    it("give up after retryAttempts", async () => {
+        flaky(5)
+        const result = await submit({
+            actions: [
+                action("a", {
+                    onError: "retry",
+                    retryAttempts: 3,
+                    retryBaseDelay: 0,
+                }),
+            ],
+        })
+        expect(result.results[0]).toMatchObject({
+            status: "failed",
+            attempts: 3,
+            httpStatus: 503,
+        })
+    })
+
+    it("only happen with onError retry", async () => {
+        flaky(1)
+        const result = await submit({
+            actions: [action("a", { retryAttempts: 3, retryBaseDelay: 0 })],
+        })
+        expect(result.results[0]).toMatchObject({
+            status: "failed",
+            attempts: 1,
+        })
+    })
+
+    it("skip a broken data mapping", async () => {
+        const { events } = serve()
+        const result = await submit({
+            actions: [
+                action("a", {
+                    onError: "retry",
+                    retryAttempts: 3,
+                    retryBaseDelay: 0,
+                    dataMapping: "{ broken",
+                }),
+            ],
+        })
+        expect(result.results[0]).toMatchObject({
+            status: "failed",
+            attempts: 1,
+        })
+        expect(events).toEqual([])
+    })
+})
+
+describe("success policy", () => {
+    it.each<[SubmissionSuccessPolicy | undefined, boolean]>([
+        [undefined, false],
+        ["all", false],
+        ["critical", true],
+        ["any", true],
+    ])("%s with a failed optional action is %s", async (policy, success) => {
+        serve({ b: () => json({}, 500) })
+        const result = await submit({
+            actions: [
+                action("a", { critical: true }),
+                action("b", { order: 1 }),
+            ],
+            successPolicy: policy,
+        })
+        expect(result.success).toBe(success)
+    })
+
+    it.each<[SubmissionSuccessPolicy, boolean]>([
+        ["critical", false],
+        ["any", true],
+    ])("%s with a failed critical action is %s", async (policy, success) => {
+        serve({ a: () => json({}, 500) })
+        const result = await submit({
+            actions: [
+                action("a", { critical: true }),
+                action("b", { order: 1 }),
+            ],
+            successPolicy: policy,
+        })
+        expect(result.success).toBe(success)
+    })
+
+    it("needs one action to succeed", async () => {
+        serve({ a: () => json({}, 500) })
+        const result = await submit({
+            actions: [action("a")],
+            successPolicy: "any",
+        })
+        expect(result.success).toBe(false)
+    })
+})
+
+describe("email transports", () => {
+    const email = (options: Partial<SubmissionAction>) =>
+        action("mail", {
+            type: "email",
+            endpoint: undefined,
+            emailTo: "team@example.com, {{email}}",
+            emailFrom: "forms@example.com",
+            emailSubject: "Lead {{q1}}",
+            emailTemplate: "Answered {{q1}}",
+            apiKey: "key",
+            ...options,
+        })
+    const answers = { q1: "Yes", email: "ana@company.com" }
+
+    it.each<[string, Partial<SubmissionAction>, string, object]>([
+        [
+            "emailjs",
+            {
+                emailServiceId: "service",
+                emailTemplateId: "template",
+                emailPublicKey: "public-key",
+            },
+            "https://api.emailjs.com/api/v1.0/email/send",
+            {
+                service_id: "service",
+                template_id: "template",
+                user_id: "public-key",
+                accessToken: "key",
+                template_params: {
+                    q1: "Yes",
+                    to_email: "team@example.com,ana@company.com",
+                    subject: "Lead Yes",
+                    message: "Answered Yes",
+                },
+            },
+        ],
+        [
+            "sendgrid",
+            { emailProvider: "sendgrid" },
+            "https://api.sendgrid.com/v3/mail/send",
+            {
+                personalizations: [
+                    {
+                        to: [
+                            { email: "team@example.com" },
+                            { email: "ana@company.com" },
+                        ],
+                    },
+                ],
+                from: { email: "forms@example.com" },
+                subject: "Lead Yes",
+                content: [{ type: "text/plain", value: "Answered Yes" }],
+            },
+        ],
+        [
+            "postmark",
+            { emailProvider: "postmark" },
+            "https://api.postmarkapp.com/email",
+            {
+                From: "forms@example.com",
+                To: "team@example.com,ana@company.com",
+                Subject: "Lead Yes",
+                TextBody: "Answered Yes",
+            },
+        ],
+        [
+            "smtp_relay",
+            {
+                emailProvider: "smtp_relay",
+                endpoint: "https://smtp.example.com/send",
+            },
+            "https://smtp.example.com/send",
+            {
+                to: ["team@example.com", "ana@company.com"],
+                from: "forms@example.com",
+                subject: "Lead Yes",
+                text: "Answered Yes",
+            },
+        ],
+    ])("%s sends the rendered message", async (_, options, url, body) => {
+        const result = await run({ actions: [email(options)] }, answers)
+        const [request] = result.results[0].requests || []
+        expect(request.url).toBe(url)
+        expect(JSON.parse(request.body || "")).toMatchObject(body)
+    })
+
+    it("reads the EmailJS template ID of older forms from emailTemplate", async () => {
+        const result = await run(
+            {
+                actions: [
+                    email({
+                        emailServiceId: "service",
+                        emailPublicKey: "public-key",
+                        emailTemplate: "template_legacy",
+                    }),
+                ],
+            },
+            answers
+        )
+        const [body] = sentBodies(result.results[0])
+        expect(body.template_id).toBe("template_legacy")
+        expect(body.template_params.message).not.toContain("template_legacy")
+    })
+
+    it.each<[string, Partial<SubmissionAction>, string]>([
+        [
+            "no recipient",
+            { emailTo: "{{q9}}" },
+            "Email recipient not configured",
+        ],
+        [
+            "no EmailJS template",
+            { emailServiceId: "service", emailPublicKey: "public-key" },
+            "EmailJS requires service ID, template ID and public key",
+        ],
+        [
+            "no SendGrid sender",
+            { emailProvider: "sendgrid", emailFrom: undefined },
+            "SendGrid requires a from address",
+        ],
+        [
+            "no Postmark token",
+            { emailProvider: "postmark", apiKey: undefined },
+            "Postmark server token not configured",
+        ],
+        [
+            "no SMTP relay endpoint",
+            { emailProvider: "smtp_relay" },
+            "SMTP relay endpoint not configured",
+        ],
+    ])("fails with %s", async (_, options, error) => {
+        const result = await run(
+            { actions: [email({ emailTemplate: undefined, ...options })] },
+            answers
+        )
+        expect(result.results[0]).toMatchObject({ status: "failed", error })
+        expect(result.results[0].requests).toBeUndefined()
+    })
+
+    it("fails when Postmark reports an error code", async () => {
+        serve({
+            email: () =>
+                json({ ErrorCode: 406, Message: "Inactive recipient" }),
+        })
+        const result = await submit({
+            actions: [email({ emailProvider: "postmark" })],
+        })
+        expect(result.results[0]).toMatchObject({
+            status: "failed",
+            error: "Postmark send failed: 406 Inactive recipient",
+        })
+    })
+})
+
+describe("CRM contact transports", () => {
+    const crm = (options: Partial<SubmissionAction>) =>
+        action("crm", { type: "crm_contact", endpoint: undefined, ...options })
+    const fields = [
+        { id: "q1", question: "Interested?", type: "radio" },
+        { id: "work_email", question: "Email", type: "email" },
+        { id: "topics", question: "Topics", type: "checkbox" },
+    ]
+    const answers = {
+        q1: "Yes",
+        work_email: " ana@company.com ",
+        topics: ["A", "B"],
+    }
+    const upsert = (options: Partial<SubmissionAction>, formData = answers) =>
+        run({ actions: [crm(options)], fields }, formData)
+
+    it("submits the HubSpot form with the email as the contact key", async () => {
+        const result = await upsert({
+            crmPortalId: "123",
+            crmFormId: "form-guid",
+        })
+        const [request] = result.results[0].requests || []
+        expect(request.url).toBe(
+            "https://api.hsforms.com/submissions/v3/integration/submit/123/form-guid"
+        )
+        expect(JSON.parse(request.body || "").fields).toEqual([
+            { objectTypeId: "0-1", name: "q1", value: "Yes" },
+            { objectTypeId: "0-1", name: "topics", value: "A;B" },
+            { objectTypeId: "0-1", name: "email", value: "ana@company.com" },
+        ])
+    })
+
+    it("posts a Salesforce web-to-lead form", async () => {
+        const result = await upsert({
+            crmProvider: "salesforce",
+            crmOrgId: "00D",
+        })
+        expect(result.results[0].requests).toMatchObject([
+            {
+                url: "https://webto.salesforce.com/servlet/servlet.WebToLead?encoding=UTF-8",
+                method: "POST",
+                body: "oid=00D&q1=Yes&topics=A&topics=B&email=ana%40company.com",
+                mode: "no-cors",
+            },
+        ])
+    })
+
+    it("upserts by email against a generic endpoint", async () => {
+        const result = await upsert({
+            crmProvider: "generic",
+            endpoint: "https://crm.example.com/contacts/{email}",
+            dataMapping: '{ "interested": "q1" }',
+        })
+        const [request] = result.results[0].requests || []
+        expect(request).toMatchObject({
+            url: "https://crm.example.com/contacts/ana%40company.com",
+            method: "PUT",
+        })
+        expect(JSON.parse(request.body || "")).toEqual({
+            email: "ana@company.com",
+            properties: { interested: "Yes" },
+        })
+    })
+
+    it("returns the contact ID the generic endpoint answers with", async () => {
+        serve({ "ana%40company.com": () => json({ id: 42 }, 201) })
+        const result = await new MultiActionSubmissionService({
+            actions: [
+                crm({
+                    crmProvider: "generic",
+                    endpoint: "https://crm.example.com/contacts/{email}",
+                }),
+            ],
+            fields,
+        }).executeActions(answers, ["q1"])
+        expect(result.results[0].data).toEqual({
+            provider: "generic",
+            email: "ana@company.com",
+            contactId: "42",
+            created: true,
+        })
+    })
+
+    it("fails without an answer to an email question", async () => {
+        const result = await upsert(
+            { crmProvider: "generic", endpoint: "https://crm.example.com" },
+            { ...answers, work_email: "" }
+        )
+        expect(result.results[0]).toMatchObject({
+            status: "failed",
+            error: "CRM contact action needs an answer to an email question",
+        })
+    })
+})
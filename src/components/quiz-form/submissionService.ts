@@ -0,0 +1,2649 @@
+// ===================================================================
+// SUBMISSION SERVICE
+// ===================================================================
+//
+// Runs a form's submission actions: conditions, data mapping, the
+// dependency graph, retries and timeouts. Destinations are action types
+// in a registry, so new ones plug in without touching this file:
+//
+//   registerSubmissionActionType(
+//       "pipedrive_deal",
+//       async (payload, action, { request }) => {
+//           const response = await request(action.endpoint!, { ... })
+//           return response.json() // becomes results.<actionId>
+//       },
+//       { pipelineId: { type: ControlType.String, title: "Pipeline" } }
+//   )
+//
+// Handlers receive the payload after data mapping, the action as it was
+// configured in Framer and a context with the untransformed submission,
+// the form's questions and `request`, a fetch that is cancelled with the
+// action and recorded in its diagnostics. Their controls are added to
+// the Submission Actions list and only shown for actions of their type.
+
+import { ControlType, type PropertyControl } from "framer"
+import {
+    evaluateConditionExpression,
+    ConditionSyntaxError,
+} from "./conditionExpression"
+import {
+    applyDataMapping,
+    renderTemplate,
+    DataMappingError,
+    type DataMappingMode,
+} from "./dataMapping"
+import { buildSlackMessage } from "./slackMessage"
+import {
+    encodePayload,
+    withQuery,
+    type PayloadEncoding,
+} from "./payloadEncoding"
+import {
+    createIdempotencyKey,
+    hashString,
+    signRequest,
+} from "./requestSigning"
+import {
+    createRelayRequest,
+    getRelayReceipts,
+    RELAY_ENVELOPE_VERSION,
+    rememberRelayReceipts,
+    type RelayConfig,
+} from "./submissionRelay"
+import type { SubmissionOutbox } from "./submissionOutbox"
+import { createSessionId, type FormSession } from "./formSession"
+
+// ===================================================================
+// TYPES
+// ===================================================================
+
+export type EmailProvider = "emailjs" | "sendgrid" | "postmark" | "smtp_relay"
+
+export type CrmProvider = "hubspot" | "salesforce" | "generic"
+
+// Built-in types; anything registered with registerSubmissionActionType
+// works as well
+export type SubmissionActionTypeName =
+    | "webhook"
+    | "email"
+    | "airtable"
+    | "google_sheets"
+    | "slack"
+    | "crm_contact"
+    | "custom"
+    | (string & {})
+
+export interface SubmissionAction {
+    id: string
+    name: string
+    type: SubmissionActionTypeName
+    enabled: boolean
+    order: number
+    dependsOn?: string[] // Action IDs that must succeed before this one runs
+    trigger?: "onSubmit" | "onStep" // Defaults to "onSubmit"
+    triggerFieldId?: string // For "onStep": the question whose answer sends it
+    critical?: boolean // Decides overall success under the "critical" policy
+
+    // Common fields
+    endpoint?: string
+    apiKey?: string
+
+    // Webhook specific
+    method?: "POST" | "PUT" | "PATCH" | "GET" // GET sends the payload as a query string
+    bodyEncoding?: PayloadEncoding // "json" (default), "urlencoded" or "multipart"
+    successCondition?: string // Checked against { result, status, headers }
+    responseMapping?: string // JSON mapping from the response to results.<actionId>
+    headers?: string // JSON string
+    signingSecret?: string // HMAC-SHA256 secret, signing is off when empty
+    signatureHeader?: string // Defaults to X-Form-Signature
+    timestampHeader?: string // Defaults to X-Form-Timestamp
+    idempotencyKey?: boolean // Send Idempotency-Key, defaults to true
+
+    // Email specific
+    emailProvider?: EmailProvider
+    emailTo?: string // Comma-separated, supports {{placeholders}}
+    emailFrom?: string
+    emailSubject?: string
+    emailTemplate?: string // Message body, supports {{placeholders}}
+    emailServiceId?: string // EmailJS service ID
+    emailTemplateId?: string // EmailJS template ID, falls back to emailTemplate
+    emailPublicKey?: string // EmailJS public key (user_id)
+
+    // Airtable specific
+    baseId?: string
+    tableId?: string // Table ID or name
+    airtableFieldMap?: string // JSON: question ID -> Airtable field name
+    airtableTypecast?: boolean // Let Airtable convert values and add select options
+    airtableMergeOn?: string // Comma-separated field names to upsert on
+
+    // Google Sheets specific
+    spreadsheetId?: string
+    sheetRange?: string // A1 notation, e.g. "Sheet1" or "Responses!A:Z"
+    valueInputOption?: "RAW" | "USER_ENTERED"
+    sheetHeaderRow?: boolean // Write question titles first when the sheet is empty
+
+    // Slack specific
+    channel?: string
+    username?: string
+    slackTitle?: string // Header, supports {{placeholders}}
+    slackFallbackText?: string // Notification text, supports {{placeholders}}
+    slackRules?: string // JSON rules for emoji and colour, see slackMessage.ts
+    slackFields?: string // Comma-separated question IDs, empty shows all answers
+
+    // CRM contact specific
+    crmProvider?: CrmProvider
+    crmPortalId?: string // HubSpot portal (hub) ID
+    crmFormId?: string // HubSpot form GUID
+    crmOrgId?: string // Salesforce organization ID (oid)
+
+    // Conditional execution
+    condition?: string // Expression like `q2 >= 18 and email includes "@company.com"`
+    onSuccess?: "continue" | "stop"
+    onError?: "continue" | "stop" | "retry"
+    retryAttempts?: number
+    retryBaseDelay?: number // ms, first retry waits twice this
+    retryMaxDelay?: number // ms, cap for the exponential backoff
+    retryJitter?: number // 0-1, fraction of each delay randomised away
+    timeout?: number // ms per attempt, 0 disables
+
+    // Data transformation
+    dataMapping?: string // JSON mapping, see dataMapping.ts for the format
+    dataMappingMode?: DataMappingMode // "mapped" (default) or "merge"
+    includeMetadata?: boolean
+
+    // Options added by the controls of registered action types
+    [option: string]: unknown
+}
+
+// What counts as a successful submission:
+//   "all"      no action failed (and at least one ran)
+//   "critical" every action marked critical succeeded or was skipped by
+//              its condition; the same as "all" when none is marked
+//   "any"      at least one action succeeded
+export type SubmissionSuccessPolicy = "all" | "critical" | "any"
+
+export interface FormSubmissionConfig {
+    actions: SubmissionAction[]
+    executeInParallel?: boolean
+    includeAnalytics?: boolean
+    invalidConditionBehavior?: "skip" | "run" // Defaults to "skip"
+    successPolicy?: SubmissionSuccessPolicy // Defaults to "all"
+    onAllSuccess?: string // Redirect URL, {{placeholders}} are URL-encoded
+    onAnyFailure?: string // Fallback action ID, or a message for the error screen
+    outbox?: SubmissionOutbox // Queue for actions that fail while offline
+    relay?: RelayConfig // Send everything through a relay, see submissionRelay.ts
+    dryRun?: boolean // Capture requests instead of sending them, runs without the relay
+    fields?: SubmissionField[] // Question definitions, e.g. to find the email answer
+    formTitle?: string
+    session?: FormSession // Shared with GTM events and every submission, generated when missing
+}
+
+// The parts of a form page that submission actions need to know about
+export interface SubmissionField {
+    id: string
+    question: string
+    type: string
+    options?: string[]
+}
+
+export interface SubmissionData {
+    formData: Record<string, unknown>
+    navigationPath: string[]
+    timestamp: string
+    sessionId: string
+    step?: string // Field ID when this is a partial submission from onStep actions
+    completionTime?: number // ms from form start to submission
+    utm?: FormSession["utm"]
+    referrer?: string
+    landingUrl?: string
+    analytics?: unknown[]
+}
+
+export type SubmissionActionStatus =
+    | "succeeded"
+    | "failed"
+    | "skipped_by_condition" // Its condition was false
+    | "skipped_by_stop" // An earlier action's stop rule ended the run
+    | "skipped_by_dependency" // Something it depends on did not succeed
+
+export interface SubmissionActionResult {
+    action: string
+    actionId: string
+    actionType: string
+    status: SubmissionActionStatus
+    success: boolean
+    data?: unknown
+    error?: string
+    offline?: boolean // Failed because the network was unreachable
+    skipped?: boolean // Any of the skipped statuses
+    attempts: number // 0 when the action never started
+    durationMs: number // Including retries and backoff
+    httpStatus?: number // Of the last response received
+    responseBody?: string // Of the last response received, truncated
+    requests?: CapturedRequest[] // What a dry run would have sent
+}
+
+// A request a dry run kept instead of sending
+export interface CapturedRequest {
+    url: string
+    method: string
+    headers: Record<string, string>
+    body?: string // Form bodies are listed as JSON [name, value] pairs
+    mode?: RequestMode
+}
+
+export interface SubmissionResult {
+    success: boolean
+    results: SubmissionActionResult[]
+    summary: { successful: number; failed: number; skipped: number }
+    queued: boolean // Offline failures were saved to the outbox
+    durationMs: number
+    dryRun?: boolean // Nothing was sent, see each result's requests
+    redirectUrl?: string // onAllSuccess, when every action succeeded
+    fallback?: SubmissionActionResult // onAnyFailure action, after a failure
+    failureMessage?: string // onAnyFailure message, after a failure
+    receipts?: Record<string, string> // Relay mode, see submissionRelay.ts
+}
+
+// Thrown by callers that treat a failed submission as an error, with the
+// full result attached for diagnostics
+export class SubmissionFailedError extends Error {
+    result: SubmissionResult
+
+    constructor(result: SubmissionResult) {
+        super(
+            `${result.summary.failed} of ${result.results.length} submission actions failed`
+        )
+        this.name = "SubmissionFailedError"
+        this.result = result
+    }
+}
+
+// A request that never got an HTTP response because fetch() itself
+// rejected (offline, DNS, CORS). Only these failures go to the outbox;
+// HTTP errors and bugs in an action fail it like any other error.
+export class NetworkError extends Error {
+    constructor(cause: unknown) {
+        super(errorMessage(cause), { cause })
+        this.name = "NetworkError"
+    }
+}
+
+// Action options holding credentials. They are never written to the
+// outbox, see submissionOutbox.ts.
+export const SECRET_ACTION_OPTIONS = ["apiKey", "signingSecret"] as const
+
+export function withoutSecrets(action: SubmissionAction): SubmissionAction {
+    const copy = { ...action }
+    SECRET_ACTION_OPTIONS.forEach((option) => delete copy[option])
+    return copy
+}
+
+// What forms report to onSubmissionError. `result` is missing when the
+// submission failed before any action ran (e.g. an invalid action graph).
+export interface SubmissionErrorDetails {
+    message: string
+    result?: SubmissionResult
+    failedActions: SubmissionActionResult[]
+}
+
+// ===================================================================
+// ACTION TYPE REGISTRY
+// ===================================================================
+
+// The submission an action runs for, before data mapping
+export interface ActionSubmission extends SubmissionData {
+    results?: Record<string, unknown> // Outputs of the actions it depends on
+    failedActions?: Array<
+        Pick<SubmissionActionResult, "action" | "actionId" | "error">
+    > // Only for the onAnyFailure fallback
+}
+
+export interface SubmissionActionContext {
+    submission: ActionSubmission
+    sessionId: string
+    fields: SubmissionField[]
+    formTitle?: string
+    request: typeof fetch // fetch bound to the signal, recorded in the result
+    signal?: AbortSignal // Aborted on timeouts and stop rules
+}
+
+// The payload is the submission after data mapping, or the mapped object
+// when the action has a mapping. What the handler resolves to becomes
+// the result's data.
+export type SubmissionActionHandler = (
+    payload: Record<string, unknown>,
+    action: SubmissionAction,
+    context: SubmissionActionContext
+) => Promise<unknown>
+
+// Property controls for the action's own options, keyed by option name
+export type SubmissionActionControls = Record<string, PropertyControl>
+
+interface SubmissionActionType {
+    handler: SubmissionActionHandler
+    controls: SubmissionActionControls
+}
+
+const SubmissionActionTypes = new Map<string, SubmissionActionType>()
+const registryListeners = new Set<() => void>()
+
+export function registerSubmissionActionType(
+    name: string,
+    handler: SubmissionActionHandler,
+    controlSchema: SubmissionActionControls = {}
+): void {
+    if (SubmissionActionTypes.has(name)) {
+        console.warn(`⚠️ Replacing submission action type "${name}"`)
+    }
+    SubmissionActionTypes.set(name, { handler, controls: controlSchema })
+    registryListeners.forEach((listener) => listener())
+}
+
+export function getSubmissionActionTypeNames(): string[] {
+    return Array.from(SubmissionActionTypes.keys())
+}
+
+// Every type's controls, each hidden unless the action is of that type
+export function getSubmissionActionTypeControls(): SubmissionActionControls {
+    const controls: SubmissionActionControls = {}
+
+    SubmissionActionTypes.forEach((actionType, name) => {
+        Object.entries(actionType.controls).forEach(([key, control]) => {
+            if (controls[key]) {
+                console.warn(
+                    `⚠️ Action type "${name}" redefines the "${key}" control`
+                )
+            }
+            controls[key] = {
+                ...control,
+                hidden: (props: SubmissionAction) =>
+                    props.type !== name || Boolean(control.hidden?.(props)),
+            }
+        })
+    })
+
+    return controls
+}
+
+// Called whenever a type is registered, e.g. to refresh property controls
+export function onSubmissionActionTypesChange(
+    listener: () => void
+): () => void {
+    registryListeners.add(listener)
+    return () => registryListeners.delete(listener)
+}
+
+// ===================================================================
+// EMAIL TRANSPORTS
+// ===================================================================
+
+interface EmailMessage {
+    to: string[]
+    from?: string
+    subject: string
+    text: string
+    templateParams: Record<string, unknown>
+}
+
+interface EmailSendResult {
+    sent: true
+    provider: EmailProvider
+    messageId?: string
+}
+
+type EmailTransport = (
+    action: SubmissionAction,
+    message: EmailMessage,
+    request: typeof fetch
+) => Promise<EmailSendResult>
+
+// Before the body setting existed, EmailJS actions kept their template ID in
+// emailTemplate. Those forms have no emailTemplateId, so the old value is
+// still read as the ID instead of being sent as the message.
+function usesLegacyEmailTemplateId(action: SubmissionAction): boolean {
+    return (
+        (action.emailProvider || "emailjs") === "emailjs" &&
+        !action.emailTemplateId &&
+        !!action.emailTemplate
+    )
+}
+
+// Reads a response by its content type: JSON (or an untyped body that
+// parses as JSON) becomes a value, empty and 204 responses become null
+// and anything else is returned as text
+export async function readResponseBody(response: Response): Promise<unknown> {
+    if (response.status === 204 || response.status === 205) return null
+
+    const text = await response.text()
+    if (text.trim() === "") return null
+
+    const contentType = response.headers.get("Content-Type") || ""
+    if (contentType === "" || /[/+]json\b/i.test(contentType)) {
+        try {
+            return JSON.parse(text)
+        } catch {
+            return text
+        }
+    }
+    return text
+}
+
+// Reads the response body for error messages without throwing on empty bodies
+export async function readErrorBody(response: Response): Promise<string> {
+    try {
+        const text = await response.text()
+        return text.length > 200 ? `${text.slice(0, 200)}…` : text
+    } catch {
+        return ""
+    }
+}
+
+const EmailTransports: Record<EmailProvider, EmailTransport> = {
+    // EmailJS REST API: https://www.emailjs.com/docs/rest-api/send/
+    emailjs: async (action, message, request) => {
+        const templateId = usesLegacyEmailTemplateId(action)
+            ? action.emailTemplate
+            : action.emailTemplateId
+        if (!action.emailServiceId || !templateId || !action.emailPublicKey) {
+            throw new Error(
+                "EmailJS requires service ID, template ID and public key"
+            )
+        }
+
+        const response = await request(
+            action.endpoint || "https://api.emailjs.com/api/v1.0/email/send",
+            {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({
+                    service_id: action.emailServiceId,
+                    template_id: templateId,
+                    user_id: action.emailPublicKey,
+                    ...(action.apiKey && { accessToken: action.apiKey }),
+                    template_params: {
+                        ...message.templateParams,
+                        to_email: message.to.join(","),
+                        from_email: message.from,
+                        subject: message.subject,
+                        message: message.text,
+                    },
+                }),
+            }
+        )
+
+        if (!response.ok) {
+            throw new Error(
+                `EmailJS send failed: ${response.status} ${await readErrorBody(response)}`
+            )
+        }
+
+        return { sent: true, provider: "emailjs" }
+    },
+
+    // SendGrid v3 Mail Send: responds 202 with an empty body
+    sendgrid: async (action, message, request) => {
+        if (!action.apiKey) throw new Error("SendGrid API key not configured")
+        if (!message.from) throw new Error("SendGrid requires a from address")
+
+        const response = await request(
+            action.endpoint || "https://api.sendgrid.com/v3/mail/send",
+            {
+                method: "POST",
+                headers: {
+                    Authorization: `Bearer ${action.apiKey}`,
+                    "Content-Type": "application/json",
+                },
+                body: JSON.stringify({
+                    personalizations: [
+                        { to: message.to.map((email) => ({ email })) },
+                    ],
+                    from: { email: message.from },
+                    subject: message.subject,
+                    content: [{ type: "text/plain", value: message.text }],
+                }),
+            }
+        )
+
+        if (!response.ok) {
+            throw new Error(
+                `SendGrid send failed: ${response.status} ${await readErrorBody(response)}`
+            )
+        }
+
+        return {
+            sent: true,
+            provider: "sendgrid",
+            messageId: response.headers.get("X-Message-Id") || undefined,
+        }
+    },
+
+    // Postmark Email API: reports delivery problems through ErrorCode
+    postmark: async (action, message, request) => {
+        if (!action.apiKey)
+            throw new Error("Postmark server token not configured")
+        if (!message.from) throw new Error("Postmark requires a from address")
+
+        const response = await request(
+            action.endpoint || "https://api.postmarkapp.com/email",
+            {
+                method: "POST",
+                headers: {
+                    Accept: "application/json",
+                    "Content-Type": "application/json",
+                    "X-Postmark-Server-Token": action.apiKey,
+                },
+                body: JSON.stringify({
+                    From: message.from,
+                    To: message.to.join(","),
+                    Subject: message.subject,
+                    TextBody: message.text,
+                    MessageStream: "outbound",
+                }),
+            }
+        )
+
+        if (!response.ok) {
+            throw new Error(
+                `Postmark send failed: ${response.status} ${await readErrorBody(response)}`
+            )
+        }
+
+        const result: {
+            ErrorCode?: number
+            Message?: string
+            MessageID?: string
+        } = await response.json()
+        if (result.ErrorCode) {
+            throw new Error(
+                `Postmark send failed: ${result.ErrorCode} ${result.Message}`
+            )
+        }
+
+        return { sent: true, provider: "postmark", messageId: result.MessageID }
+    },
+
+    // Generic HTTP endpoint in front of an SMTP server
+    smtp_relay: async (action, message, request) => {
+        if (!action.endpoint)
+            throw new Error("SMTP relay endpoint not configured")
+
+        const response = await request(action.endpoint, {
+            method: "POST",
+            headers: {
+                "Content-Type": "application/json",
+                ...(action.apiKey && {
+                    Authorization: `Bearer ${action.apiKey}`,
+                }),
+            },
+            body: JSON.stringify({
+                to: message.to,
+                from: message.from,
+                subject: message.subject,
+                text: message.text,
+            }),
+        })
+
+        if (!response.ok) {
+            throw new Error(
+                `SMTP relay send failed: ${response.status} ${await readErrorBody(response)}`
+            )
+        }
+
+        const body = await response.text()
+        let messageId: string | undefined
+        try {
+            const parsed = JSON.parse(body)
+            messageId = parsed?.messageId || parsed?.id
+        } catch {
+            // Relays are free to answer with plain text
+        }
+
+        return { sent: true, provider: "smtp_relay", messageId }
+    },
+}
+
+// ===================================================================
+// CRM CONTACTS
+// ===================================================================
+
+interface CrmContact {
+    email: string // Upsert key, the answer to the form's email question
+    properties: Record<string, unknown>
+}
+
+interface CrmUpsertResult {
+    provider: CrmProvider
+    email: string
+    contactId?: string // Not every provider reports it back
+    created?: boolean
+}
+
+type CrmContactTransport = (
+    action: SubmissionAction,
+    contact: CrmContact,
+    request: typeof fetch
+) => Promise<CrmUpsertResult>
+
+const CrmContactTransports: Record<CrmProvider, CrmContactTransport> = {
+    // HubSpot Forms API v3: HubSpot creates or updates the contact by email.
+    // The submission response has no contact ID, so it is looked up with the
+    // private app token when one is configured.
+    hubspot: async (action, contact, request) => {
+        if (!action.crmPortalId || !action.crmFormId) {
+            throw new Error("HubSpot requires portal ID and form GUID")
+        }
+
+        const hutk =
+            typeof document !== "undefined"
+                ? document.cookie.match(/(?:^|;\s*)hubspotutk=([^;]+)/)?.[1]
+                : undefined
+
+        const response = await request(
+            action.endpoint ||
+                `https://api.hsforms.com/submissions/v3/integration/submit/${action.crmPortalId}/${action.crmFormId}`,
+            {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({
+                    fields: Object.entries({
+                        ...contact.properties,
+                        email: contact.email,
+                    }).map(([name, value]) => ({
+                        objectTypeId: "0-1", // Contacts
+                        name,
+                        value: Array.isArray(value)
+                            ? value.join(";") // Multiple checkbox properties
+                            : String(value ?? ""),
+                    })),
+                    context: {
+                        ...(hutk && { hutk }),
+                        ...(typeof window !== "undefined" && {
+                            pageUri: window.location.href,
+                            pageName: document.title,
+                        }),
+                    },
+                }),
+            }
+        )
+
+        if (!response.ok) {
+            throw new Error(
+                `HubSpot submission failed: ${response.status} ${await readErrorBody(response)}`
+            )
+        }
+
+        let contactId: string | undefined
+        if (action.apiKey) {
+            const lookup = await request(
+                `https://api.hubapi.com/crm/v3/objects/contacts/${encodeURIComponent(contact.email)}?idProperty=email`,
+                {
+                    headers: { Authorization: `Bearer ${action.apiKey}` },
+                }
+            )
+            // A 404 only means HubSpot has not processed the submission yet
+            if (lookup.ok) contactId = (await lookup.json()).id
+        }
+
+        return { provider: "hubspot", email: contact.email, contactId }
+    },
+
+    // Salesforce Web-to-Lead: a plain form post that cannot be read back
+    // cross-origin, so success means the request was sent. Duplicate
+    // handling by email is left to the org's matching rules.
+    salesforce: async (action, contact, request) => {
+        if (!action.crmOrgId)
+            throw new Error("Salesforce organization ID not configured")
+
+        const body = new URLSearchParams({ oid: action.crmOrgId })
+        Object.entries(contact.properties).forEach(([name, value]) => {
+            if (Array.isArray(value)) {
+                value.forEach((item) => body.append(name, String(item)))
+            } else if (value !== undefined && value !== null) {
+                body.append(name, String(value))
+            }
+        })
+        body.set("email", contact.email)
+
+        await request(
+            action.endpoint ||
+                "https://webto.salesforce.com/servlet/servlet.WebToLead?encoding=UTF-8",
+            {
+                method: "POST",
+                mode: "no-cors",
+                body,
+            }
+        )
+
+        return { provider: "salesforce", email: contact.email }
+    },
+
+    // Any REST API that upserts by email. "{email}" in the endpoint is
+    // replaced with the encoded address, e.g. https://api.example.com/contacts/{email}
+    generic: async (action, contact, request) => {
+        if (!action.endpoint) throw new Error("CRM endpoint not configured")
+
+        const response = await request(
+            action.endpoint.replace(
+                /\{email\}/g,
+                encodeURIComponent(contact.email)
+            ),
+            {
+                // GET is only for webhooks, an upsert needs a body
+                method:
+                    action.method && action.method !== "GET"
+                        ? action.method
+                        : "PUT",
+                headers: {
+                    "Content-Type": "application/json",
+                    ...(action.apiKey && {
+                        Authorization: `Bearer ${action.apiKey}`,
+                    }),
+                },
+                body: JSON.stringify({
+                    email: contact.email,
+                    properties: contact.properties,
+                }),
+            }
+        )
+
+        if (!response.ok) {
+            throw new Error(
+                `CRM upsert failed: ${response.status} ${await readErrorBody(response)}`
+            )
+        }
+
+        const body = await response.text()
+        let contactId: string | undefined
+        try {
+            const parsed = JSON.parse(body)
+            const id = parsed?.id ?? parsed?.contactId ?? parsed?.contact?.id
+            contactId = id === undefined || id === null ? undefined : String(id)
+        } catch {
+            // Some APIs answer 204 No Content
+        }
+
+        return {
+            provider: "generic",
+            email: contact.email,
+            contactId,
+            created: response.status === 201,
+        }
+    },
+}
+
+// ===================================================================
+// ENHANCED SUBMISSION SERVICE
+// ===================================================================
+
+// What an action's attempts left behind, copied into its result
+interface ActionDiagnostics {
+    attempts: number
+    httpStatus?: number
+    responseBody?: string
+    requests?: CapturedRequest[] // Dry runs only
+}
+
+const MAX_RESPONSE_BODY = 500
+
+function truncateBody(text: string): string {
+    return text.length > MAX_RESPONSE_BODY
+        ? `${text.slice(0, MAX_RESPONSE_BODY)}…`
+        : text
+}
+
+function describeBody(body: BodyInit | null | undefined): string | undefined {
+    if (body === undefined || body === null) return undefined
+    if (typeof body === "string") return body
+    if (body instanceof URLSearchParams) return body.toString()
+    if (typeof FormData !== "undefined" && body instanceof FormData) {
+        return JSON.stringify(
+            Array.from(body.entries()).map(([name, value]) => [
+                name,
+                typeof value === "string" ? value : `[file ${value.name}]`,
+            ])
+        )
+    }
+    return "[binary body]"
+}
+
+function captureRequest(
+    input: RequestInfo | URL,
+    init?: RequestInit
+): CapturedRequest {
+    return {
+        url:
+            typeof input === "string"
+                ? input
+                : input instanceof URL
+                  ? input.href
+                  : input.url,
+        method: init?.method || "GET",
+        headers: Object.fromEntries(new Headers(init?.headers).entries()),
+        body: describeBody(init?.body),
+        mode: init?.mode,
+    }
+}
+
+function errorMessage(error: unknown): string {
+    return error instanceof Error ? error.message : "Unknown error"
+}
+
+// Result for an action that never started
+function skippedResult(
+    action: SubmissionAction,
+    status: SubmissionActionStatus,
+    error: string,
+    offline?: boolean
+): SubmissionActionResult {
+    return {
+        action: action.name,
+        actionId: action.id,
+        actionType: action.type,
+        status,
+        success: false,
+        skipped: true,
+        error,
+        offline,
+        attempts: 0,
+        durationMs: 0,
+    }
+}
+
+// fetch() rejects instead of resolving when the request never reaches a
+// server. Aborts (timeouts, stops) are passed through unchanged.
+async function fetchOrNetworkError(
+    input: RequestInfo | URL,
+    init?: RequestInit
+): Promise<Response> {
+    try {
+        return await fetch(input, init)
+    } catch (error) {
+        if (init?.signal?.aborted) throw error
+        throw new NetworkError(error)
+    }
+}
+
+export class MultiActionSubmissionService {
+    private config: FormSubmissionConfig
+    private analytics: Map<string, unknown> = new Map()
+
+    constructor(config: FormSubmissionConfig) {
+        this.config = config
+        console.log(
+            "🚀 MultiActionSubmissionService initialized with config:",
+            config
+        )
+    }
+
+    // priorResults holds outputs of earlier step submissions, so final
+    // actions can depend on them and map results.<actionId>
+    async executeActions(
+        formData: Record<string, unknown>,
+        navigationPath: string[],
+        priorResults: Record<string, unknown> = {}
+    ): Promise<SubmissionResult> {
+        console.log("🚀 Executing submission actions...")
+
+        const submissionData = this.prepareSubmission(formData, navigationPath)
+        console.log("📊 Submission data prepared:", submissionData)
+
+        return this.executePrepared(submissionData, priorResults)
+    }
+
+    // Runs the onStep actions waiting for `fieldId` with the answers so
+    // far. Resolves to null when no enabled action waits for that field.
+    async executeStepActions(
+        fieldId: string,
+        formData: Record<string, unknown>,
+        navigationPath: string[],
+        priorResults: Record<string, unknown> = {}
+    ): Promise<SubmissionResult | null> {
+        const waiting = this.config.actions.some(
+            (action) =>
+                action.enabled && this.isTriggeredBy(action, fieldId)
+        )
+        if (!waiting) return null
+
+        console.log(`🪜 Executing step actions for ${fieldId}...`)
+        return this.executePrepared(
+            {
+                ...this.prepareSubmission(formData, navigationPath),
+                step: fieldId,
+            },
+            priorResults
+        )
+    }
+
+    private prepareSubmission(
+        formData: Record<string, unknown>,
+        navigationPath: string[]
+    ): SubmissionData {
+        const { session } = this.config
+        return {
+            formData,
+            navigationPath,
+            timestamp: new Date().toISOString(),
+            sessionId: session?.id || createSessionId(),
+            ...(session && {
+                completionTime: Date.now() - session.startedAt,
+                ...(Object.keys(session.utm).length > 0 && {
+                    utm: session.utm,
+                }),
+                referrer: session.referrer,
+                landingUrl: session.landingUrl,
+            }),
+            ...(this.config.includeAnalytics && {
+                analytics: Array.from(this.analytics.values()),
+            }),
+        }
+    }
+
+    // Step submissions run the onStep actions waiting for that field and
+    // full submissions run everything else
+    private isTriggeredBy(action: SubmissionAction, step?: string): boolean {
+        return step
+            ? action.trigger === "onStep" && action.triggerFieldId === step
+            : action.trigger !== "onStep"
+    }
+
+    // Runs the configured actions against an already prepared payload.
+    // Used directly by the outbox to replay queued submissions.
+    async executePrepared(
+        submissionData: SubmissionData,
+        priorResults: Record<string, unknown> = {}
+    ): Promise<SubmissionResult> {
+        // Dry runs stay local so every action's requests can be shown
+        if (this.config.relay?.endpoint && !this.config.dryRun) {
+            return this.executeViaRelay(submissionData, priorResults)
+        }
+
+        const { formData, step } = submissionData
+        const startedAt = Date.now()
+        const { fallbackAction, sortedActions, enabledActions } =
+            this.selectActions(formData, step)
+
+        console.log(`✅ ${enabledActions.length} actions ready for execution`)
+
+        // Validate the whole graph before anything is sent
+        const graph = this.buildActionGraph(enabledActions, priorResults)
+
+        const outputs: Record<string, unknown> = { ...priorResults }
+
+        // Every action gets its own controller so a "stop" can cancel the
+        // actions ordered after it, whether or not they already started.
+        // Once dependsOn is in use the order no longer decides what runs
+        // after what, so a stop only cancels the actions depending on it.
+        const usesDependencies = enabledActions.some(
+            (action) => action.dependsOn?.length
+        )
+        const controllers = new Map(
+            enabledActions.map((action) => [action.id, new AbortController()])
+        )
+        const actionsById = new Map(
+            enabledActions.map((action) => [action.id, action])
+        )
+        const scheduled = new Map<string, Promise<SubmissionActionResult>>()
+
+        // Starts an action as soon as everything it waits for has settled.
+        // Recursion terminates because buildActionGraph rejects cycles.
+        const schedule = (
+            action: SubmissionAction
+        ): Promise<SubmissionActionResult> => {
+            const existing = scheduled.get(action.id)
+            if (existing) return existing
+
+            const promise = (async () => {
+                const { after, needs } = graph.get(action.id)!
+                const upstream = new Map<string, SubmissionActionResult>()
+                await Promise.all(
+                    [...new Set([...after, ...needs])]
+                        .filter((id) => actionsById.has(id))
+                        .map(async (id) => {
+                            upstream.set(
+                                id,
+                                await schedule(actionsById.get(id)!)
+                            )
+                        })
+                )
+
+                const signal = controllers.get(action.id)!.signal
+                if (signal.aborted) {
+                    return skippedResult(
+                        action,
+                        "skipped_by_stop",
+                        errorMessage(signal.reason)
+                    )
+                }
+
+                // Dependencies must have succeeded, now or in an earlier run
+                const unmet = needs.find(
+                    (id) => !(id in priorResults) && !upstream.get(id)?.success
+                )
+                if (unmet) {
+                    const dependency = upstream.get(unmet)
+                    console.log(
+                        `⏭️ Skipping action ${action.name}: dependency ${unmet} did not succeed`
+                    )
+                    return skippedResult(
+                        action,
+                        "skipped_by_dependency",
+                        dependency
+                            ? `Skipped: dependency "${unmet}" did not succeed`
+                            : `Skipped: dependency "${unmet}" did not run`,
+                        // Replaying the dependency later should replay this too
+                        dependency?.offline
+                    )
+                }
+
+                const result = await this.runAction(
+                    action,
+                    this.withUpstreamResults(
+                        submissionData,
+                        this.collectAncestors(action.id, graph),
+                        outputs
+                    ),
+                    signal
+                )
+
+                if (result.success) outputs[action.id] = result.data
+
+                if (this.shouldStop(action, result)) {
+                    console.log(
+                        `🛑 Stopping actions after ${action.name} due to ${result.success ? "onSuccess" : "onError"}: stop`
+                    )
+                    const descendants = usesDependencies
+                        ? this.collectDescendants(action.id, graph)
+                        : undefined
+                    enabledActions
+                        .filter((other) =>
+                            descendants
+                                ? descendants.has(other.id)
+                                : other.order > action.order
+                        )
+                        .forEach((other) =>
+                            controllers
+                                .get(other.id)
+                                ?.abort(
+                                    new Error(
+                                        `Stopped by action ${action.name}`
+                                    )
+                                )
+                        )
+                }
+
+                return result
+            })()
+
+            scheduled.set(action.id, promise)
+            return promise
+        }
+
+        await Promise.all(enabledActions.map(schedule))
+
+        // Report every enabled action in order, including the ones whose
+        // condition did not match
+        const results = await Promise.all(
+            sortedActions.map(
+                (action) =>
+                    scheduled.get(action.id) ??
+                    skippedResult(
+                        action,
+                        "skipped_by_condition",
+                        "Skipped: condition not met"
+                    )
+            )
+        )
+
+        return this.finishSubmission(
+            submissionData,
+            sortedActions,
+            results,
+            outputs,
+            fallbackAction,
+            startedAt
+        )
+    }
+
+    // The actions a submission runs in order, without the onAnyFailure
+    // action, and the ones among them whose condition matches
+    private selectActions(
+        formData: Record<string, unknown>,
+        step?: string
+    ): {
+        fallbackAction?: SubmissionAction
+        sortedActions: SubmissionAction[]
+        enabledActions: SubmissionAction[]
+    } {
+        // The onAnyFailure action only runs as a fallback
+        const fallbackAction = this.config.actions.find(
+            (action) => action.id === this.config.onAnyFailure?.trim()
+        )
+
+        const sortedActions = this.config.actions
+            .filter(
+                (action) =>
+                    action.enabled &&
+                    action !== fallbackAction &&
+                    this.isTriggeredBy(action, step)
+            )
+            .sort((a, b) => a.order - b.order)
+        const enabledActions = sortedActions.filter((action) =>
+            this.evaluateCondition(action.condition, formData)
+        )
+
+        return { fallbackAction, sortedActions, enabledActions }
+    }
+
+    // Turns the results of every sorted action into the submission result:
+    // the summary, the success policy, the redirect, the onAnyFailure
+    // fallback and the outbox. Shared by local runs and relay failures.
+    private async finishSubmission(
+        submissionData: SubmissionData,
+        sortedActions: SubmissionAction[],
+        results: SubmissionActionResult[],
+        outputs: Record<string, unknown>,
+        fallbackAction: SubmissionAction | undefined,
+        startedAt: number
+    ): Promise<SubmissionResult> {
+        const { step } = submissionData
+        const offlineActions = sortedActions.filter(
+            (_action, index) => results[index].offline
+        )
+        const summary = {
+            successful: results.filter((r) => r.status === "succeeded").length,
+            failed: results.filter((r) => r.status === "failed").length,
+            skipped: results.filter((r) => r.skipped).length,
+        }
+
+        const overallSuccess = this.meetsSuccessPolicy(
+            sortedActions,
+            results,
+            summary
+        )
+
+        // Redirects and fallbacks belong to the final submission
+        let redirectUrl: string | undefined
+        if (
+            !step &&
+            summary.failed === 0 &&
+            summary.successful > 0 &&
+            this.config.onAllSuccess?.trim()
+        ) {
+            redirectUrl = renderTemplate(
+                this.config.onAllSuccess.trim(),
+                submissionData,
+                encodeURIComponent
+            )
+        }
+
+        // Offline failures are retried from the outbox, so only failures
+        // that reached a server trigger onAnyFailure
+        const failedActions = step
+            ? []
+            : results.filter((r) => r.status === "failed" && !r.offline)
+        let fallback: SubmissionActionResult | undefined
+        let failureMessage: string | undefined
+        if (failedActions.length > 0 && fallbackAction) {
+            console.log(`🛟 Running fallback action ${fallbackAction.name}`)
+            fallback = await this.runAction(fallbackAction, {
+                ...submissionData,
+                results: outputs,
+                failedActions: failedActions.map(
+                    ({ action, actionId, error }) => ({
+                        action,
+                        actionId,
+                        error,
+                    })
+                ),
+            })
+        } else if (failedActions.length > 0 && this.config.onAnyFailure) {
+            failureMessage = renderTemplate(
+                this.config.onAnyFailure,
+                submissionData
+            )
+        }
+
+        const queued = await this.enqueueOffline(
+            submissionData,
+            offlineActions,
+            results
+        )
+
+        console.log(
+            `🏁 Submission completed. Success: ${overallSuccess}`,
+            summary
+        )
+
+        return {
+            success: overallSuccess,
+            results,
+            summary,
+            queued,
+            durationMs: Date.now() - startedAt,
+            dryRun: this.config.dryRun || undefined,
+            redirectUrl,
+            fallback,
+            failureMessage,
+        }
+    }
+
+    // What a relay envelope carries: the actions this submission fires,
+    // the fallback, and every action they depend on so the relay can tell
+    // a dependency that did not run from an unknown one. Credentials stay
+    // here, the relay has its own.
+    private getRelayActions(step?: string): SubmissionAction[] {
+        const byId = new Map(this.config.actions.map((a) => [a.id, a]))
+        const included = new Map<string, SubmissionAction>()
+        const include = (action: SubmissionAction | undefined) => {
+            if (!action || included.has(action.id)) return
+            included.set(action.id, action)
+            action.dependsOn?.forEach((id) => include(byId.get(id.trim())))
+        }
+
+        this.config.actions
+            .filter(
+                (action) => action.enabled && this.isTriggeredBy(action, step)
+            )
+            .forEach(include)
+        if (!step) include(byId.get(this.config.onAnyFailure?.trim() || ""))
+
+        return Array.from(included.values()).map(withoutSecrets)
+    }
+
+    // Keeps network failures in the outbox so they can be replayed later.
+    // Resolves to whether anything was queued.
+    private async enqueueOffline(
+        submissionData: SubmissionData,
+        offlineActions: SubmissionAction[],
+        results: SubmissionActionResult[]
+    ): Promise<boolean> {
+        if (offlineActions.length === 0 || !this.config.outbox) return false
+
+        await this.config.outbox.enqueue({
+            sessionId: submissionData.sessionId,
+            submissionData,
+            actions: offlineActions,
+            completedResults: Object.fromEntries(
+                results
+                    .filter((r) => r.success)
+                    .map((r) => [r.actionId, r.data])
+            ),
+            executeInParallel: this.config.executeInParallel,
+            fields: this.config.fields,
+            relay: this.config.relay,
+            invalidConditionBehavior: this.config.invalidConditionBehavior,
+            successPolicy: this.config.successPolicy,
+            onAnyFailure: this.config.onAnyFailure,
+            fallbackAction: this.config.actions.find(
+                (action) => action.id === this.config.onAnyFailure?.trim()
+            ),
+            receipts: this.config.relay
+                ? getRelayReceipts(submissionData.sessionId)
+                : undefined,
+            createdAt: new Date().toISOString(),
+            attempts: 0,
+        })
+        return true
+    }
+
+    // Relay mode: the relay runs the actions and answers with the result.
+    // When it cannot be reached or answers with an error, every action it
+    // would have run fails and the result is finished here like a local
+    // run, fallback included. Offline failures (here or between the relay
+    // and a destination) go to the outbox.
+    private async executeViaRelay(
+        submissionData: SubmissionData,
+        priorResults: Record<string, unknown>
+    ): Promise<SubmissionResult> {
+        const relay = this.config.relay!
+        const startedAt = Date.now()
+        console.log(`🛰️ Sending submission to relay ${relay.endpoint}`)
+
+        const { sessionId } = submissionData
+        const receipts = getRelayReceipts(sessionId)
+
+        let result: SubmissionResult
+        let relayRequests = 0
+        try {
+            const request = await createRelayRequest(relay, {
+                version: RELAY_ENVELOPE_VERSION,
+                submission: submissionData,
+                actions: this.getRelayActions(submissionData.step),
+                completedResults: priorResults,
+                receipts: Object.fromEntries(
+                    Object.keys(priorResults)
+                        .filter((id) => id in receipts)
+                        .map((id) => [id, receipts[id]])
+                ),
+                options: {
+                    executeInParallel: this.config.executeInParallel,
+                    invalidConditionBehavior:
+                        this.config.invalidConditionBehavior,
+                    successPolicy: this.config.successPolicy,
+                    onAllSuccess: this.config.onAllSuccess,
+                    onAnyFailure: this.config.onAnyFailure,
+                    fields: this.config.fields,
+                    formTitle: this.config.formTitle,
+                },
+            })
+            relayRequests++
+            const response = await fetchOrNetworkError(relay.endpoint, request)
+
+            if (!response.ok) {
+                throw new Error(
+                    `Relay failed: ${response.status} ${await readErrorBody(response)}`
+                )
+            }
+            result = await response.json()
+            rememberRelayReceipts(sessionId, result.receipts)
+        } catch (error) {
+            const message = errorMessage(error)
+            const offline = this.isOfflineError(error)
+            console.error("❌ Relay request failed:", message)
+
+            // Conditions are checked here so the summary and the success
+            // policy count the same actions as a local run. The actions
+            // that would have run report the relay requests they were in.
+            const { fallbackAction, sortedActions, enabledActions } =
+                this.selectActions(submissionData.formData, submissionData.step)
+            const results = sortedActions.map((action) =>
+                enabledActions.includes(action)
+                    ? {
+                          action: action.name,
+                          actionId: action.id,
+                          actionType: action.type,
+                          status: "failed" as const,
+                          success: false,
+                          error: message,
+                          offline,
+                          attempts: relayRequests,
+                          durationMs: Date.now() - startedAt,
+                      }
+                    : skippedResult(
+                          action,
+                          "skipped_by_condition",
+                          "Skipped: condition not met"
+                      )
+            )
+            return this.finishSubmission(
+                submissionData,
+                sortedActions,
+                results,
+                { ...priorResults },
+                fallbackAction,
+                startedAt
+            )
+        }
+
+        const offlineActions = this.config.actions.filter((action) =>
+            result.results.some((r) => r.actionId === action.id && r.offline)
+        )
+        result.queued = await this.enqueueOffline(
+            submissionData,
+            offlineActions,
+            result.results
+        )
+
+        console.log(
+            `🏁 Relay submission completed. Success: ${result.success}`,
+            result.summary
+        )
+        return result
+    }
+
+    // See SubmissionSuccessPolicy
+    private meetsSuccessPolicy(
+        actions: SubmissionAction[],
+        results: SubmissionActionResult[],
+        summary: SubmissionResult["summary"]
+    ): boolean {
+        if (summary.successful === 0) return false
+
+        const policy = this.config.successPolicy || "all"
+        if (policy === "any") return true
+
+        const critical = results.filter(
+            (r) => actions.find((action) => action.id === r.actionId)?.critical
+        )
+        if (policy === "critical" && critical.length > 0) {
+            return critical.every(
+                (r) =>
+                    r.status === "succeeded" ||
+                    r.status === "skipped_by_condition"
+            )
+        }
+
+        return summary.failed === 0
+    }
+
+    // Builds the execution graph. "needs" edges come from dependsOn and
+    // require the upstream action to succeed; "after" edges only order
+    // execution. Without any dependsOn the legacy switch applies: sequential
+    // mode chains actions by order, parallel mode has no edges at all.
+    private buildActionGraph(
+        actions: SubmissionAction[],
+        priorResults: Record<string, unknown> = {}
+    ): Map<string, { after: string[]; needs: string[] }> {
+        const knownIds = new Set(this.config.actions.map((a) => a.id))
+        const usesDependencies = actions.some((a) => a.dependsOn?.length)
+        const graph = new Map<string, { after: string[]; needs: string[] }>()
+
+        actions.forEach((action, index) => {
+            const needs = (action.dependsOn || [])
+                .map((id) => id.trim())
+                .filter(Boolean)
+
+            needs.forEach((id) => {
+                if (id === action.id) {
+                    throw new Error(
+                        `Action "${action.id}" cannot depend on itself`
+                    )
+                }
+                if (!knownIds.has(id) && !(id in priorResults)) {
+                    throw new Error(
+                        `Action "${action.id}" depends on unknown action "${id}"`
+                    )
+                }
+            })
+
+            const after =
+                !usesDependencies && !this.config.executeInParallel && index > 0
+                    ? [actions[index - 1].id]
+                    : []
+
+            graph.set(action.id, { after, needs })
+        })
+
+        // Depth-first search for cycles so the error can name the loop
+        const visiting: string[] = []
+        const done = new Set<string>()
+        const visit = (id: string) => {
+            if (done.has(id)) return
+            const loopStart = visiting.indexOf(id)
+            if (loopStart !== -1) {
+                const loop = [...visiting.slice(loopStart), id].join(" → ")
+                throw new Error(`Circular action dependency: ${loop}`)
+            }
+            visiting.push(id)
+            const node = graph.get(id)
+            node?.needs.forEach(visit)
+            node?.after.forEach(visit)
+            visiting.pop()
+            done.add(id)
+        }
+        graph.forEach((_node, id) => visit(id))
+
+        return graph
+    }
+
+    private collectAncestors(
+        actionId: string,
+        graph: Map<string, { after: string[]; needs: string[] }>
+    ): Set<string> {
+        const ancestors = new Set<string>()
+        const walk = (id: string) => {
+            graph.get(id)?.needs.forEach((dependency) => {
+                if (ancestors.has(dependency)) return
+                ancestors.add(dependency)
+                walk(dependency)
+            })
+        }
+        walk(actionId)
+        return ancestors
+    }
+
+    private collectDescendants(
+        actionId: string,
+        graph: Map<string, { after: string[]; needs: string[] }>
+    ): Set<string> {
+        const descendants = new Set<string>()
+        const walk = (id: string) => {
+            graph.forEach(({ needs }, dependent) => {
+                if (!needs.includes(id) || descendants.has(dependent)) return
+                descendants.add(dependent)
+                walk(dependent)
+            })
+        }
+        walk(actionId)
+        return descendants
+    }
+
+    // Exposes upstream outputs as `results.<actionId>` so dataMapping and
+    // templates can reference them, e.g. "results.airtable.records.0.id"
+    private withUpstreamResults(
+        submissionData: SubmissionData,
+        ancestors: Set<string>,
+        outputs: Record<string, unknown>
+    ): ActionSubmission {
+        if (ancestors.size === 0) return submissionData
+
+        return {
+            ...submissionData,
+            results: Object.fromEntries(
+                [...ancestors]
+                    .filter((id) => id in outputs)
+                    .map((id) => [id, outputs[id]])
+            ),
+        }
+    }
+
+    // Network failures never stop the run: they are queued in the outbox
+    private shouldStop(
+        action: SubmissionAction,
+        result: SubmissionActionResult
+    ): boolean {
+        if (result.success) return action.onSuccess === "stop"
+        // An action that was stopped itself has already stopped the rest
+        if (result.skipped) return false
+        return !result.offline && action.onError === "stop"
+    }
+
+    // Runs one action with its retry policy. Actions aborted because an
+    // earlier action asked to stop resolve as skipped_by_stop.
+    private async runAction(
+        action: SubmissionAction,
+        payload: ActionSubmission,
+        signal?: AbortSignal
+    ): Promise<SubmissionActionResult> {
+        const actionStartedAt = Date.now()
+        const diagnostics: ActionDiagnostics = { attempts: 0 }
+        const measured = () => ({
+            action: action.name,
+            actionId: action.id,
+            actionType: action.type,
+            attempts: diagnostics.attempts,
+            durationMs: Date.now() - actionStartedAt,
+            httpStatus: diagnostics.httpStatus,
+            responseBody: diagnostics.responseBody,
+            requests: diagnostics.requests,
+        })
+
+        try {
+            console.log(`🔄 Executing action: ${action.name}`)
+            const result = await this.executeActionWithRetry(
+                action,
+                payload,
+                diagnostics,
+                signal
+            )
+            console.log(`✅ Action ${action.name} completed successfully`)
+            return {
+                ...measured(),
+                status: "succeeded",
+                success: true,
+                data: result,
+            }
+        } catch (error) {
+            if (signal?.aborted) {
+                console.log(`🛑 Action ${action.name} was stopped`)
+                return {
+                    ...measured(),
+                    status: "skipped_by_stop",
+                    success: false,
+                    skipped: true,
+                    error: errorMessage(signal.reason),
+                }
+            }
+
+            const message = errorMessage(error)
+            const offline = this.isOfflineError(error)
+            console.error(`❌ Action ${action.name} failed:`, message)
+            return {
+                ...measured(),
+                status: "failed",
+                success: false,
+                error: message,
+                offline,
+            }
+        }
+    }
+
+    private async executeActionWithRetry(
+        action: SubmissionAction,
+        data: ActionSubmission,
+        diagnostics: ActionDiagnostics,
+        signal?: AbortSignal,
+        attempt: number = 1
+    ): Promise<unknown> {
+        diagnostics.attempts = attempt
+        try {
+            return await this.executeActionWithTimeout(
+                action,
+                data,
+                diagnostics,
+                signal
+            )
+        } catch (error) {
+            const maxAttempts = action.retryAttempts || 1
+
+            // Stopped by another action: never retry
+            if (signal?.aborted) throw error
+
+            // A broken mapping or condition fails the same way on every attempt
+            if (
+                error instanceof DataMappingError ||
+                error instanceof ConditionSyntaxError
+            ) {
+                throw error
+            }
+
+            // Backing off is pointless while the browser reports no network
+            if (this.isOfflineError(error) && !this.isOnline()) {
+                throw error
+            }
+
+            if (attempt < maxAttempts && action.onError === "retry") {
+                const delay = this.getRetryDelay(action, attempt)
+                console.log(
+                    `🔄 Retrying action ${action.name} in ${delay}ms, attempt ${attempt + 1}/${maxAttempts}`
+                )
+                await this.sleep(delay, signal)
+                return this.executeActionWithRetry(
+                    action,
+                    data,
+                    diagnostics,
+                    signal,
+                    attempt + 1
+                )
+            }
+
+            throw error
+        }
+    }
+
+    // Exponential backoff capped at retryMaxDelay. Jitter is the fraction
+    // of the delay that may be randomly shaved off (0 = none, 1 = full).
+    private getRetryDelay(action: SubmissionAction, attempt: number): number {
+        const baseDelay = action.retryBaseDelay ?? 1000
+        const maxDelay = action.retryMaxDelay ?? 30000
+        const jitter = Math.min(Math.max(action.retryJitter ?? 0, 0), 1)
+
+        const delay = Math.min(maxDelay, baseDelay * Math.pow(2, attempt))
+        return Math.round(delay * (1 - jitter * Math.random()))
+    }
+
+    private sleep(ms: number, signal?: AbortSignal): Promise<void> {
+        return new Promise((resolve, reject) => {
+            if (signal?.aborted) return reject(signal.reason)
+            const onAbort = () => {
+                clearTimeout(timer)
+                reject(signal?.reason)
+            }
+            const timer = setTimeout(() => {
+                signal?.removeEventListener("abort", onAbort)
+                resolve()
+            }, ms)
+            signal?.addEventListener("abort", onAbort, { once: true })
+        })
+    }
+
+    // Runs a single attempt under its own AbortController, which fires on
+    // the action timeout or when the outer signal is aborted. The attempt
+    // rejects on abort even if the action type ignores the signal.
+    private async executeActionWithTimeout(
+        action: SubmissionAction,
+        data: ActionSubmission,
+        diagnostics: ActionDiagnostics,
+        signal?: AbortSignal
+    ): Promise<unknown> {
+        const timeout = action.timeout || 0
+        const controller = new AbortController()
+
+        const forwardAbort = () => controller.abort(signal?.reason)
+        if (signal?.aborted) forwardAbort()
+        signal?.addEventListener("abort", forwardAbort, { once: true })
+
+        const timer =
+            timeout > 0
+                ? setTimeout(
+                      () =>
+                          controller.abort(
+                              new Error(
+                                  `Action ${action.name} timed out after ${timeout}ms`
+                              )
+                          ),
+                      timeout
+                  )
+                : undefined
+
+        try {
+            return await new Promise((resolve, reject) => {
+                if (controller.signal.aborted) {
+                    return reject(controller.signal.reason)
+                }
+                controller.signal.addEventListener(
+                    "abort",
+                    () => reject(controller.signal.reason),
+                    { once: true }
+                )
+                this.executeAction(
+                    action,
+                    data,
+                    diagnostics,
+                    controller.signal
+                ).then(
+                    resolve,
+                    reject
+                )
+            })
+        } finally {
+            clearTimeout(timer)
+            signal?.removeEventListener("abort", forwardAbort)
+        }
+    }
+
+    private isOnline(): boolean {
+        return typeof navigator === "undefined" || navigator.onLine !== false
+    }
+
+    private isOfflineError(error: unknown): boolean {
+        return error instanceof NetworkError
+    }
+
+    private async executeAction(
+        action: SubmissionAction,
+        data: ActionSubmission,
+        diagnostics: ActionDiagnostics,
+        signal?: AbortSignal
+    ): Promise<unknown> {
+        const actionType = SubmissionActionTypes.get(action.type)
+        if (!actionType) throw new Error(`Unknown action type: ${action.type}`)
+
+        // fetch bound to this attempt's signal that records the last
+        // response for the action result. Dry runs record the request and
+        // answer 200 with an empty JSON object instead.
+        const request: typeof fetch = async (input, init) => {
+            if (this.config.dryRun) {
+                diagnostics.requests = [
+                    ...(diagnostics.requests || []),
+                    captureRequest(input, init),
+                ]
+                diagnostics.httpStatus = 200
+                return new Response("{}", {
+                    status: 200,
+                    headers: { "Content-Type": "application/json" },
+                })
+            }
+
+            const response = await fetchOrNetworkError(input, {
+                ...init,
+                signal: init?.signal ?? signal,
+            })
+            diagnostics.httpStatus = response.status
+            try {
+                diagnostics.responseBody = truncateBody(
+                    await response.clone().text()
+                )
+            } catch {
+                diagnostics.responseBody = undefined
+            }
+            return response
+        }
+
+        // Transform data if mapping is provided
+        const transformedData = this.transformData(data, action)
+
+        // Add metadata if enabled
+        const finalData = action.includeMetadata
+            ? { ...transformedData, _metadata: this.getMetadata(action) }
+            : transformedData
+
+        return actionType.handler(finalData, action, {
+            submission: data,
+            sessionId: data.sessionId,
+            fields: this.config.fields || [],
+            formTitle: this.config.formTitle,
+            request,
+            signal,
+        })
+    }
+
+    private evaluateCondition(
+        condition: string | undefined,
+        formData: Record<string, unknown>
+    ): boolean {
+        if (!condition || condition.trim() === "") return true
+
+        try {
+            return evaluateConditionExpression(condition, formData)
+        } catch (error) {
+            if (!(error instanceof ConditionSyntaxError)) throw error
+
+            // Fail closed unless the form explicitly opts into running
+            const run = this.config.invalidConditionBehavior === "run"
+            console.warn(
+                `⚠️ Invalid condition expression, ${run ? "running" : "skipping"} action:`,
+                condition,
+                error.message
+            )
+            return run
+        }
+    }
+
+    // Mapping errors are reported as failures of this action instead of
+    // silently sending the whole payload. Mappings always build an object.
+    private transformData(
+        data: ActionSubmission,
+        action: SubmissionAction
+    ): Record<string, unknown> {
+        try {
+            return applyDataMapping(
+                data,
+                action.dataMapping,
+                action.dataMappingMode
+            ) as Record<string, unknown>
+        } catch (error) {
+            if (error instanceof DataMappingError) {
+                console.error(
+                    `❌ Data mapping failed for action ${action.name}:`,
+                    error.message
+                )
+            }
+            throw error
+        }
+    }
+
+    private getMetadata(action: SubmissionAction): Record<string, string> {
+        return {
+            actionId: action.id,
+            actionName: action.name,
+            actionType: action.type,
+            executedAt: new Date().toISOString(),
+            userAgent: typeof window !== "undefined" ? navigator.userAgent : "",
+            timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+        }
+    }
+
+}
+
+// ===================================================================
+// BUILT-IN ACTION TYPES
+// ===================================================================
+
+async function executeWebhookAction(
+    data: Record<string, unknown>,
+    action: SubmissionAction,
+    { request, submission }: SubmissionActionContext
+): Promise<unknown> {
+    if (!action.endpoint) throw new Error("Webhook endpoint not configured")
+
+    const method = action.method || "POST"
+    const payload = encodePayload(data, action.bodyEncoding, method)
+
+    let headers: Record<string, string> = payload.contentType
+        ? { "Content-Type": payload.contentType }
+        : {}
+
+    if (action.headers) {
+        try {
+            headers = { ...headers, ...JSON.parse(action.headers) }
+        } catch {
+            console.warn("Invalid headers JSON for action:", action.name)
+        }
+    }
+
+    // The multipart boundary has to match the body, whatever the headers say
+    if (payload.contentType?.startsWith("multipart/")) {
+        headers = {
+            ...Object.fromEntries(
+                Object.entries(headers).filter(
+                    ([name]) => name.toLowerCase() !== "content-type"
+                )
+            ),
+            "Content-Type": payload.contentType,
+        }
+    }
+
+    if (action.apiKey) {
+        headers["Authorization"] = `Bearer ${action.apiKey}`
+    }
+
+    Object.assign(
+        headers,
+        await getSigningHeaders(action, payload.signedBody, submission)
+    )
+
+    const response = await request(withQuery(action.endpoint, payload.query), {
+        method,
+        headers,
+        body: payload.body,
+    })
+
+    if (!response.ok) {
+        throw new Error(
+            `Webhook failed: ${response.status} ${response.statusText}`
+        )
+    }
+
+    return interpretResponse(action, response, await readResponseBody(response))
+}
+
+async function executeEmailAction(
+    data: Record<string, unknown>,
+    action: SubmissionAction,
+    { request }: SubmissionActionContext
+): Promise<EmailSendResult> {
+    const provider = action.emailProvider || "emailjs"
+    const transport = EmailTransports[provider]
+    if (!transport) throw new Error(`Unknown email provider: ${provider}`)
+
+    const to = renderTemplate(action.emailTo || "", data)
+        .split(",")
+        .map((email) => email.trim())
+        .filter(Boolean)
+    if (to.length === 0) throw new Error("Email recipient not configured")
+
+    const message: EmailMessage = {
+        to,
+        from: action.emailFrom
+            ? renderTemplate(action.emailFrom, data)
+            : undefined,
+        subject: renderTemplate(action.emailSubject || "Form Submission", data),
+        text:
+            action.emailTemplate && !usesLegacyEmailTemplateId(action)
+                ? renderTemplate(action.emailTemplate, data)
+                : formatDataForEmail(data),
+        templateParams: Object.fromEntries(
+            Object.entries(payloadAnswers(data)).map(([key, value]) => [
+                key,
+                Array.isArray(value) ? value.join(", ") : value,
+            ])
+        ),
+    }
+
+    console.log(`📧 Sending email via ${provider}:`, {
+        to: message.to,
+        subject: message.subject,
+    })
+    return transport(action, message, request)
+}
+
+// Airtable's create and upsert responses; upserts also list the records
+// they created and updated
+interface AirtableResponse {
+    records?: Array<{ id: string; fields: Record<string, unknown> }>
+    createdRecords?: string[]
+    updatedRecords?: string[]
+}
+
+interface AirtableResult extends AirtableResponse {
+    recordId?: string
+    created?: boolean // Only known for upserts
+}
+
+async function executeAirtableAction(
+    data: Record<string, unknown>,
+    action: SubmissionAction,
+    { request, fields }: SubmissionActionContext
+): Promise<AirtableResult> {
+    const endpoint =
+        action.endpoint ||
+        (action.baseId && action.tableId
+            ? `https://api.airtable.com/v0/${action.baseId}/${encodeURIComponent(action.tableId)}`
+            : "")
+    if (!endpoint || !action.apiKey) {
+        throw new Error("Airtable configuration incomplete")
+    }
+
+    const mergeOn = (action.airtableMergeOn || "")
+        .split(",")
+        .map((name) => name.trim())
+        .filter(Boolean)
+
+    // With merge fields the batch update endpoint creates or updates
+    // the record that matches on them
+    const airtableData = {
+        records: [{ fields: buildAirtableFields(action, data, fields) }],
+        ...(action.airtableTypecast && { typecast: true }),
+        ...(mergeOn.length > 0 && {
+            performUpsert: { fieldsToMergeOn: mergeOn },
+        }),
+    }
+
+    const response = await request(endpoint, {
+        method: mergeOn.length > 0 ? "PATCH" : "POST",
+        headers: {
+            Authorization: `Bearer ${action.apiKey}`,
+            "Content-Type": "application/json",
+        },
+        body: JSON.stringify(airtableData),
+    })
+
+    if (!response.ok) {
+        throw new Error(
+            `Airtable submission failed: ${response.status} ${await readErrorBody(response)}`
+        )
+    }
+
+    const result: AirtableResponse = await response.json()
+    return {
+        ...result,
+        recordId: result.records?.[0]?.id,
+        created: result.createdRecords
+            ? result.createdRecords.length > 0
+            : undefined,
+    }
+}
+
+// spreadsheets.values.append, or whatever the Endpoint URL answers
+interface SheetsAppendResponse {
+    spreadsheetId?: string
+    tableRange?: string
+    updates?: { updatedRange?: string; updatedRows?: number }
+}
+
+interface SheetsAppendResult extends SheetsAppendResponse {
+    updatedRange?: string
+    headerRowWritten: boolean
+}
+
+async function executeGoogleSheetsAction(
+    data: Record<string, unknown>,
+    action: SubmissionAction,
+    { request, fields }: SubmissionActionContext
+): Promise<SheetsAppendResult> {
+    const range = action.sheetRange || "Sheet1"
+    const valueInputOption = action.valueInputOption || "RAW"
+    const sheetUrl = action.spreadsheetId
+        ? `https://sheets.googleapis.com/v4/spreadsheets/${encodeURIComponent(action.spreadsheetId)}/values/`
+        : undefined
+    const endpoint = sheetUrl
+        ? `${sheetUrl}${encodeURIComponent(range)}:append?valueInputOption=${valueInputOption}&insertDataOption=INSERT_ROWS`
+        : action.endpoint
+    if (!endpoint) throw new Error("Google Sheets endpoint not configured")
+
+    const headers: Record<string, string> = {
+        "Content-Type": "application/json",
+        ...(action.apiKey && {
+            Authorization: `Bearer ${action.apiKey}`,
+        }),
+    }
+
+    const columns = getSheetColumns(action, data, fields)
+    const values = [buildSheetRow(columns, action, data)]
+
+    // The header row can only be checked for through the Sheets API
+    if (action.sheetHeaderRow && sheetUrl) {
+        const sheetName = range.split("!")[0]
+        const firstRow = await request(
+            `${sheetUrl}${encodeURIComponent(`${sheetName}!1:1`)}`,
+            { headers }
+        )
+        if (!firstRow.ok) {
+            throw new Error(
+                `Google Sheets header check failed: ${firstRow.status} ${await readErrorBody(firstRow)}`
+            )
+        }
+        const existing: { values?: unknown[][] } = await firstRow.json()
+        if (!existing.values || existing.values.length === 0) {
+            values.unshift(columns.map((column) => column.label))
+        }
+    }
+
+    // Same body as spreadsheets.values.append
+    const response = await request(endpoint, {
+        method: "POST",
+        headers,
+        body: JSON.stringify({
+            range,
+            majorDimension: "ROWS",
+            values,
+            ...(!sheetUrl && { valueInputOption }),
+        }),
+    })
+
+    if (!response.ok) {
+        throw new Error(
+            `Google Sheets submission failed: ${response.status} ${await readErrorBody(response)}`
+        )
+    }
+
+    const result: SheetsAppendResponse = await response.json()
+    return {
+        ...result,
+        updatedRange: result.updates?.updatedRange,
+        headerRowWritten: values.length > 1,
+    }
+}
+
+// The answers always come from the submission. A data mapping only adds
+// values the title and fallback text can use as {{placeholders}}.
+async function executeSlackAction(
+    data: Record<string, unknown>,
+    action: SubmissionAction,
+    { request, fields, formTitle, submission }: SubmissionActionContext
+): Promise<{ sent: true }> {
+    if (!action.endpoint) throw new Error("Slack webhook URL not configured")
+
+    const slackMessage = {
+        channel: action.channel,
+        username: action.username || "Form Bot",
+        ...buildSlackMessage(
+            {
+                title: action.slackTitle,
+                fallbackText: action.slackFallbackText,
+                rules: action.slackRules,
+                include: (action.slackFields || "")
+                    .split(",")
+                    .map((id) => id.trim())
+                    .filter(Boolean),
+            },
+            { ...data, ...submission },
+            fields,
+            formTitle
+        ),
+    }
+
+    const response = await request(action.endpoint, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(slackMessage),
+    })
+
+    if (!response.ok) {
+        throw new Error(
+            `Slack notification failed: ${response.status} ${await readErrorBody(response)}`
+        )
+    }
+
+    return { sent: true }
+}
+
+// Without a data mapping every answer becomes a contact property named
+// after its question ID; with one, the mapped object is the property set.
+async function executeCrmContactAction(
+    data: Record<string, unknown>,
+    action: SubmissionAction,
+    { request, fields, submission }: SubmissionActionContext
+): Promise<CrmUpsertResult> {
+    const formData = submission.formData
+    const provider = action.crmProvider || "hubspot"
+    const transport = CrmContactTransports[provider]
+    if (!transport) throw new Error(`Unknown CRM provider: ${provider}`)
+
+    const properties = withoutMetadata(
+        action.dataMapping ? data : payloadAnswers(data)
+    )
+
+    const emailField = findEmailField(fields, formData)
+    const email = emailField ? formData[emailField.id] : properties.email
+    if (!email || typeof email !== "string") {
+        throw new Error(
+            "CRM contact action needs an answer to an email question"
+        )
+    }
+    delete properties.email
+    if (emailField) delete properties[emailField.id]
+
+    console.log(`👤 Upserting ${provider} contact:`, email)
+    return transport(action, { email: email.trim(), properties }, request)
+}
+
+// The first answered question of type "email" identifies the contact
+function findEmailField(
+    fields: SubmissionField[],
+    formData: Record<string, unknown>
+): SubmissionField | undefined {
+    return fields.find((field) => {
+        const answer = formData[field.id]
+        return (
+            field.type === "email" &&
+            typeof answer === "string" &&
+            answer.trim() !== ""
+        )
+    })
+}
+
+async function executeCustomAction(
+    data: Record<string, unknown>,
+    action: SubmissionAction,
+    context: SubmissionActionContext
+): Promise<unknown> {
+    // Allow custom JavaScript execution (be careful with security)
+    if (action.endpoint) {
+        // Treat as custom webhook
+        return executeWebhookAction(data, action, context)
+    }
+
+    // Custom processing logic could go here
+    console.log("🔧 Custom action executed:", action.name, data)
+    return { processed: true }
+}
+
+// Signed again on every attempt so the timestamp stays fresh, while the
+// idempotency key stays the same across retries and outbox replays.
+// Step submissions key on the answers too, so a changed answer is resent.
+async function getSigningHeaders(
+    action: SubmissionAction,
+    body: string,
+    submission: SubmissionData
+): Promise<Record<string, string>> {
+    const headers: Record<string, string> = {}
+
+    if (submission.sessionId && action.idempotencyKey !== false) {
+        headers["Idempotency-Key"] = createIdempotencyKey(
+            submission.sessionId,
+            action.id,
+            submission.step
+                ? hashString(JSON.stringify(submission.formData))
+                : undefined
+        )
+    }
+
+    if (action.signingSecret) {
+        const timestamp = String(Math.floor(Date.now() / 1000))
+        headers[action.timestampHeader || "X-Form-Timestamp"] = timestamp
+        headers[action.signatureHeader || "X-Form-Signature"] =
+            await signRequest(action.signingSecret, body, timestamp)
+    }
+
+    return headers
+}
+
+// Applies the action's success condition and response mapping. Both read
+// { result, status, headers }, e.g. `result.status == "ok"` or
+// { "recordId": "result.data.id" }. Without a mapping the whole body
+// becomes results.<actionId>.
+function interpretResponse(
+    action: SubmissionAction,
+    response: Response,
+    body: unknown
+): unknown {
+    const scope = {
+        result: body,
+        status: response.status,
+        headers: Object.fromEntries(response.headers.entries()),
+    }
+
+    if (
+        action.successCondition?.trim() &&
+        !evaluateConditionExpression(action.successCondition, scope)
+    ) {
+        throw new Error(
+            `Response did not meet the success condition: ${action.successCondition}`
+        )
+    }
+
+    return action.responseMapping?.trim()
+        ? applyDataMapping(scope, action.responseMapping)
+        : body
+}
+
+// For actions whose payload becomes record or contact fields
+function withoutMetadata(
+    data: Record<string, unknown>
+): Record<string, unknown> {
+    return Object.fromEntries(
+        Object.entries(data).filter(([key]) => key !== "_metadata")
+    )
+}
+
+// The answers in a payload, empty when a data mapping left them out
+function payloadAnswers(
+    data: Record<string, unknown>
+): Record<string, unknown> {
+    const { formData } = data
+    return typeof formData === "object" &&
+        formData !== null &&
+        !Array.isArray(formData)
+        ? (formData as Record<string, unknown>)
+        : {}
+}
+
+function formatDataForEmail(data: Record<string, unknown>): string {
+    let message = "New form submission:\n\n"
+
+    Object.entries(payloadAnswers(data)).forEach(([key, value]) => {
+        message += `${key}: ${Array.isArray(value) ? value.join(", ") : String(value)}\n`
+    })
+
+    return message
+}
+
+// Builds the record's cell values. The column mapping renames question
+// IDs (and submittedAt, sessionId, completionTime) to Airtable field
+// names and limits the record to those columns; without it every answer
+// is sent under its question ID. A data mapping replaces all of this.
+function buildAirtableFields(
+    action: SubmissionAction,
+    data: Record<string, unknown>,
+    fields: SubmissionField[]
+): Record<string, unknown> {
+    if (action.dataMapping) return withoutMetadata(data)
+
+    const values: Record<string, unknown> = {
+        submittedAt: data.timestamp,
+        sessionId: data.sessionId,
+        // Airtable duration fields count seconds
+        ...(typeof data.completionTime === "number" && {
+            completionTime: Math.round(data.completionTime / 1000),
+        }),
+    }
+    Object.entries(payloadAnswers(data)).forEach(([key, value]) => {
+        values[key] = toAirtableValue(fields, key, value)
+    })
+
+    let columnMap: Record<string, string> | undefined
+    if (action.airtableFieldMap) {
+        try {
+            columnMap = JSON.parse(action.airtableFieldMap)
+        } catch {
+            throw new Error(
+                `Invalid Airtable column mapping JSON for action: ${action.name}`
+            )
+        }
+    }
+
+    if (!columnMap) {
+        const { submittedAt, sessionId, completionTime, ...answers } = values
+        return {
+            "Submitted At": submittedAt,
+            "Session ID": sessionId,
+            ...(completionTime !== undefined && {
+                "Completion Time": completionTime,
+            }),
+            ...answers,
+        }
+    }
+
+    const record: Record<string, unknown> = {}
+    Object.entries(columnMap).forEach(([key, fieldName]) => {
+        if (values[key] !== undefined && values[key] !== null) {
+            record[fieldName] = values[key]
+        }
+    })
+    return record
+}
+
+// Checkbox answers stay arrays for multiple select fields and number
+// answers are sent as numbers
+function toAirtableValue(
+    fields: SubmissionField[],
+    fieldId: string,
+    value: unknown
+): unknown {
+    const field = fields.find((f) => f.id === fieldId)
+
+    if (field?.type === "checkbox") {
+        return Array.isArray(value) ? value : [value].filter(Boolean)
+    }
+    if (field?.type === "number" && value !== "") {
+        const number = Number(value)
+        return Number.isFinite(number) ? number : value
+    }
+    return Array.isArray(value) ? value.join(", ") : value
+}
+
+// Columns follow the order questions are declared in, not the order
+// they were answered, so every row lines up with the header. With a
+// data mapping the mapping's own key order is used instead.
+function getSheetColumns(
+    action: SubmissionAction,
+    data: Record<string, unknown>,
+    fields: SubmissionField[]
+): Array<{ key: string; label: string }> {
+    if (action.dataMapping) {
+        return Object.keys(withoutMetadata(data)).map((key) => ({
+            key,
+            label: key,
+        }))
+    }
+
+    const questions =
+        fields.length > 0
+            ? fields
+                  .filter(
+                      (field) =>
+                          field.type !== "content" &&
+                          field.type !== "progress process"
+                  )
+                  .map((field) => ({
+                      key: field.id,
+                      label: field.question || field.id,
+                  }))
+            : Object.keys(payloadAnswers(data)).map((key) => ({
+                  key,
+                  label: key,
+              }))
+
+    return [
+        { key: "submittedAt", label: "Submitted At" },
+        { key: "sessionId", label: "Session ID" },
+        { key: "completionTime", label: "Completion Time (s)" },
+        ...questions,
+    ]
+}
+
+function buildSheetRow(
+    columns: Array<{ key: string }>,
+    action: SubmissionAction,
+    data: Record<string, unknown>
+): Array<string | number | boolean> {
+    const values: Record<string, unknown> = action.dataMapping
+        ? data
+        : {
+              ...payloadAnswers(data),
+              submittedAt: data.timestamp,
+              sessionId: data.sessionId,
+              completionTime:
+                  typeof data.completionTime === "number"
+                      ? Math.round(data.completionTime / 1000)
+                      : "",
+          }
+
+    return columns.map(({ key }) => {
+        const value = values[key]
+        if (value === undefined || value === null) return ""
+        if (Array.isArray(value)) return value.join(", ")
+        if (typeof value === "object") return JSON.stringify(value)
+        if (typeof value === "number" || typeof value === "boolean") {
+            return value
+        }
+        return String(value)
+    })
+}
+
+registerSubmissionActionType("webhook", executeWebhookAction)
+
+registerSubmissionActionType("email", executeEmailAction, {
+    emailTo: {
+        type: ControlType.String,
+        title: "Email To",
+        defaultValue: "",
+    },
+    emailProvider: {
+        type: ControlType.Enum,
+        title: "Email Provider",
+        options: ["emailjs", "sendgrid", "postmark", "smtp_relay"],
+        optionTitles: ["EmailJS", "SendGrid", "Postmark", "SMTP Relay (HTTP)"],
+        defaultValue: "emailjs",
+    },
+    emailFrom: {
+        type: ControlType.String,
+        title: "Email From",
+        defaultValue: "",
+        hidden: (props: SubmissionAction) =>
+            props.emailProvider === "emailjs" || !props.emailProvider,
+    },
+    emailSubject: {
+        type: ControlType.String,
+        title: "Email Subject",
+        defaultValue: "Form Submission",
+    },
+    emailTemplate: {
+        type: ControlType.String,
+        title: "Email Body",
+        defaultValue: "",
+        displayTextArea: true,
+        description:
+            "Use {{q1}} or {{formData.q1}} for answers. Empty sends all answers. With EmailJS and no Template ID, this is read as the template ID like older forms.",
+    },
+    emailServiceId: {
+        type: ControlType.String,
+        title: "EmailJS Service ID",
+        defaultValue: "",
+        hidden: (props: SubmissionAction) =>
+            !!props.emailProvider && props.emailProvider !== "emailjs",
+    },
+    emailTemplateId: {
+        type: ControlType.String,
+        title: "EmailJS Template ID",
+        defaultValue: "",
+        hidden: (props: SubmissionAction) =>
+            !!props.emailProvider && props.emailProvider !== "emailjs",
+    },
+    emailPublicKey: {
+        type: ControlType.String,
+        title: "EmailJS Public Key",
+        defaultValue: "",
+        hidden: (props: SubmissionAction) =>
+            !!props.emailProvider && props.emailProvider !== "emailjs",
+    },
+})
+
+registerSubmissionActionType("airtable", executeAirtableAction, {
+    baseId: {
+        type: ControlType.String,
+        title: "Airtable Base ID",
+        defaultValue: "",
+        description: "Used with Table when no Endpoint URL is set.",
+    },
+    tableId: {
+        type: ControlType.String,
+        title: "Airtable Table",
+        defaultValue: "",
+    },
+    airtableFieldMap: {
+        type: ControlType.String,
+        title: "Column Mapping (JSON)",
+        defaultValue: "",
+        displayTextArea: true,
+        description:
+            'e.g. {"q1": "Email", "q3": "Interests", "completionTime": "Duration"}',
+    },
+    airtableTypecast: {
+        type: ControlType.Boolean,
+        title: "Typecast",
+        defaultValue: false,
+        description:
+            "Let Airtable convert values and create missing select options.",
+    },
+    airtableMergeOn: {
+        type: ControlType.String,
+        title: "Upsert On",
+        defaultValue: "",
+        description:
+            "Airtable field names to match existing records on, comma-separated.",
+    },
+})
+
+registerSubmissionActionType("google_sheets", executeGoogleSheetsAction, {
+    spreadsheetId: {
+        type: ControlType.String,
+        title: "Spreadsheet ID",
+        defaultValue: "",
+        description:
+            "Appends through the Sheets API with API Key as the OAuth token. Leave empty to post to Endpoint URL.",
+    },
+    sheetRange: {
+        type: ControlType.String,
+        title: "Sheet Range",
+        defaultValue: "Sheet1",
+    },
+    valueInputOption: {
+        type: ControlType.Enum,
+        title: "Value Input",
+        options: ["RAW", "USER_ENTERED"],
+        optionTitles: ["Raw", "User Entered"],
+        defaultValue: "RAW",
+        description:
+            "User Entered parses numbers, dates and formulas like typed input.",
+    },
+    sheetHeaderRow: {
+        type: ControlType.Boolean,
+        title: "Header Row",
+        defaultValue: false,
+        description:
+            "Write question titles first when the sheet is empty. Needs Spreadsheet ID.",
+    },
+})
+
+registerSubmissionActionType("slack", executeSlackAction, {
+    channel: {
+        type: ControlType.String,
+        title: "Slack Channel",
+        defaultValue: "#general",
+    },
+    username: {
+        type: ControlType.String,
+        title: "Bot Username",
+        defaultValue: "Form Bot",
+    },
+    slackTitle: {
+        type: ControlType.String,
+        title: "Slack Title",
+        defaultValue: "",
+        description:
+            "Header text, defaults to the form title. Supports {{q1}}.",
+    },
+    slackFallbackText: {
+        type: ControlType.String,
+        title: "Fallback Text",
+        defaultValue: "",
+        description: "Shown in notifications. Supports {{q1}}.",
+    },
+    slackFields: {
+        type: ControlType.String,
+        title: "Slack Questions",
+        defaultValue: "",
+        description:
+            "Question IDs to include, comma-separated. Empty shows every answer.",
+    },
+    slackRules: {
+        type: ControlType.String,
+        title: "Emoji & Colour Rules",
+        defaultValue: "",
+        displayTextArea: true,
+        description:
+            'e.g. [{"when": "q2 >= 65", "emoji": ":rotating_light:", "color": "#e01e5a"}]. First match wins.',
+    },
+})
+
+registerSubmissionActionType("crm_contact", executeCrmContactAction, {
+    crmProvider: {
+        type: ControlType.Enum,
+        title: "CRM",
+        options: ["hubspot", "salesforce", "generic"],
+        optionTitles: [
+            "HubSpot Forms",
+            "Salesforce Web-to-Lead",
+            "Generic REST (upsert by email)",
+        ],
+        defaultValue: "hubspot",
+        description:
+            "Contacts are matched by the answer to the email question. Use Data Mapping to name CRM properties.",
+    },
+    crmPortalId: {
+        type: ControlType.String,
+        title: "HubSpot Portal ID",
+        defaultValue: "",
+        hidden: (props: SubmissionAction) =>
+            !!props.crmProvider && props.crmProvider !== "hubspot",
+    },
+    crmFormId: {
+        type: ControlType.String,
+        title: "HubSpot Form GUID",
+        defaultValue: "",
+        hidden: (props: SubmissionAction) =>
+            !!props.crmProvider && props.crmProvider !== "hubspot",
+    },
+    crmOrgId: {
+        type: ControlType.String,
+        title: "Salesforce Org ID",
+        defaultValue: "",
+        hidden: (props: SubmissionAction) => props.crmProvider !== "salesforce",
+    },
+})
+
+registerSubmissionActionType("custom", executeCustomAction)
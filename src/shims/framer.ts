@@ -30,12 +30,22 @@ export function addPropertyControls(component: any, controls: PropertyControls):
   }
 }
 
+// Where the component is rendering. The sandbox behaves like Framer's preview.
+export const RenderTarget = {
+  canvas: "CANVAS",
+  export: "EXPORT",
+  thumbnail: "THUMBNAIL",
+  preview: "PREVIEW",
+  current: (): string => "PREVIEW",
+} as const
+
 // Optional, basic placeholder types to avoid import errors in some components
 export type PropertyControl = {
   type: ControlType
   title?: string
   defaultValue?: unknown
   options?: string[]
+  optionTitles?: string[]
   control?: unknown
   hidden?: (props: any) => boolean
   description?: string